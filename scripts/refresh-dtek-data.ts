@@ -3,18 +3,34 @@
 /**
  * DTEK Data Refresh Script
  *
- * Extracts DTEK data from all 4 regions using Playwright and stores in Redis.
+ * Extracts DTEK data from all regions and stores in Redis.
+ *
+ * Extraction modes:
+ *   http    - Plain fetch of the shutdowns page + inline DisconSchedule parsing
+ *   browser - Playwright Chromium (passes Incapsula JS challenges)
+ *   auto    - http first, Playwright only when a WAF challenge is detected (default)
  *
  * Usage:
  *   npx tsx scripts/refresh-dtek-data.ts                # Uses .env file
  *   npx tsx scripts/refresh-dtek-data.ts --headed       # Visible browser
  *   npx tsx scripts/refresh-dtek-data.ts --region=kem   # Single region
+ *   npx tsx scripts/refresh-dtek-data.ts --mode=http    # Never launch Chromium
+ *   npx tsx scripts/refresh-dtek-data.ts --concurrency=3 # Regions extracted in parallel
+ *   npx tsx scripts/refresh-dtek-data.ts --pool-size=5  # Sessions kept per region
+ *
+ * Besides region data, every region gets a pool of independent sessions (one page load
+ * each) that the app rotates through; writing a new pool resets its health counters.
+ *
+ * Regions are isolated: a failing region keeps its last good data in Redis and
+ * does not stop the others. A JSON summary is printed and saved to
+ * artifacts/summary.json; the exit code is 1 only when every region failed.
  */
 
 import 'dotenv/config';
+import { randomUUID } from 'crypto';
 import { mkdirSync, writeFileSync } from 'fs';
 import { z } from 'zod';
-import { chromium, type BrowserContext } from 'playwright';
+import { chromium, type Browser, type BrowserContext } from 'playwright';
 import Redis from 'ioredis';
 
 // Artifacts directory for screenshots, videos, and data
@@ -22,39 +38,27 @@ const ARTIFACTS_DIR = 'artifacts';
 const SCREENSHOTS_DIR = `${ARTIFACTS_DIR}/screenshots`;
 const VIDEOS_DIR = `${ARTIFACTS_DIR}/videos`;
 const DATA_FILE = `${ARTIFACTS_DIR}/extracted-data.json`;
+const SUMMARY_FILE = `${ARTIFACTS_DIR}/summary.json`;
 import {
 	DTEK_REGIONS,
 	DTEK_CACHE_TTL,
 	DTEK_REGION_URLS,
-	DTEK_REGION_CITY_NAMES,
+	DTEK_META_KEY,
+	DTEK_SESSION_POOL_SIZE,
 	dtekDataKey,
+	dtekSessionsKey,
+	dtekSessionStatsKey,
 	isDtekRegion,
+	sessionFromRegion,
 	type DtekRegion,
 	type DtekCachedRegion,
-	type ScheduleData,
-	type HourlySchedule,
+	type DtekCacheMeta,
+	type DtekSessionPool,
+	type StoredCookie,
 } from '../src/lib/types/dtek-cache.js';
-import type { ScheduleStatus, ScheduleRange } from '../src/lib/types/dtek.js';
-
-// -----------------------------------------------------------------------------
-// Validation
-// -----------------------------------------------------------------------------
-
-const DisconScheduleSchema = z.object({
-	streets: z
-		.union([z.record(z.string(), z.array(z.string())), z.array(z.string())])
-		.refine((v) => (Array.isArray(v) ? v.length > 0 : Object.keys(v).length > 0), {
-			message: 'streets must not be empty',
-		}),
-	fact: z.object({
-		update: z.string().min(1),
-		// data can be empty array [] or object { timestamp: { groupId: { hour: status } } }
-		data: z.union([z.array(z.unknown()), z.record(z.string(), z.unknown())]).optional(),
-		// today is the timestamp key to use for current day in data
-		today: z.number().optional(),
-	}),
-	preset: z.unknown(),
-});
+import { parseTemplate, buildCachedRegion } from '../src/lib/server/dtek/template.js';
+import { fetchTemplate, isWafChallenge, USER_AGENT } from '../src/lib/server/dtek/client.js';
+import { formatErrorForLog } from '../src/lib/types/errors.js';
 
 // -----------------------------------------------------------------------------
 // Helpers
@@ -63,224 +67,92 @@ const DisconScheduleSchema = z.object({
 const RETRY_DELAYS = [5_000, 10_000, 30_000, 60_000]; // 5s, 10s, 30s, 60s (then stays at 60s)
 const PAGE_TIMEOUT = 10_000; // 10s timeout for page navigation and route.fetch
 
+const DEFAULT_CONCURRENCY = 2;
+
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-async function withRetry<T>(fn: () => Promise<T>, attempts = 3): Promise<T> {
+async function withRetry<T>(
+	log: (message: string) => void,
+	fn: (attempt: number) => Promise<T>,
+	attempts = 3
+): Promise<T> {
 	let lastError: unknown;
 	for (let i = 1; i <= attempts; i++) {
 		try {
-			return await fn();
+			return await fn(i);
 		} catch (error) {
 			lastError = error;
 			if (i === attempts) {
-				console.log(`  Attempt ${i}/${attempts} failed: ${error}`);
+				log(`Attempt ${i}/${attempts} failed: ${error}`);
 				throw error;
 			}
 			const delay = RETRY_DELAYS[Math.min(i - 1, RETRY_DELAYS.length - 1)];
-			console.log(`  Attempt ${i}/${attempts} failed: ${error}`);
-			console.log(`  Waiting ${delay / 1000}s before retry...`);
+			log(`Attempt ${i}/${attempts} failed: ${error}`);
+			log(`Waiting ${delay / 1000}s before retry...`);
 			await sleep(delay);
 		}
 	}
 	throw lastError ?? new Error('unreachable');
 }
 
-/** Extract balanced JSON from text starting after marker */
-function extractJson(text: string, marker: string, open: string, close: string): unknown {
-	const start = text.indexOf(marker);
-	if (start === -1) return null;
-	const eq = text.indexOf('=', start);
-	if (eq === -1) return null;
-
-	// Find the open bracket - must be immediately after = (with optional whitespace)
-	let jsonStart = -1;
-	for (let i = eq + 1; i < text.length; i++) {
-		const ch = text[i];
-		if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') continue;
-		if (ch === open) {
-			jsonStart = i;
-			break;
+/** Run fn over items with at most `limit` calls in flight */
+async function mapWithConcurrency<T>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T) => Promise<void>
+): Promise<void> {
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			await fn(items[next++]);
 		}
-		// Found a non-whitespace char that isn't the expected opener - wrong format
-		return null;
-	}
-	if (jsonStart === -1) return null;
-
-	let depth = 0;
-	for (let i = jsonStart; i < text.length; i++) {
-		if (text[i] === open) depth++;
-		else if (text[i] === close && --depth === 0) {
-			try {
-				return JSON.parse(text.slice(jsonStart, i + 1));
-			} catch {
-				return null;
-			}
-		}
-	}
-	return null;
-}
-
-/** Parse DisconSchedule data from page HTML */
-function parseDisconSchedule(html: string) {
-	return {
-		// Try object format first (multi-city), then array (single-city like KEM)
-		streets:
-			extractJson(html, 'DisconSchedule.streets', '{', '}') ??
-			extractJson(html, 'DisconSchedule.streets', '[', ']'),
-		fact: extractJson(html, 'DisconSchedule.fact', '{', '}'),
-		preset: extractJson(html, 'DisconSchedule.preset', '{', '}'),
 	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
 }
 
-/** Get current day of week in Kyiv timezone (1=Monday, 7=Sunday) */
-function getKyivDayOfWeek(date: Date = new Date()): string {
-	const kyivDate = new Date(date.toLocaleString('en-US', { timeZone: 'Europe/Kyiv' }));
-	const jsDay = kyivDate.getDay(); // 0=Sunday, 1=Monday, ...
-	// Convert to ISO: 1=Monday, 7=Sunday
-	return String(jsDay === 0 ? 7 : jsDay);
-}
+/** Prefix log lines with the region so parallel output stays readable */
+const regionLogger = (region: DtekRegion) => (message: string) =>
+	console.log(`[${region.toUpperCase()}] ${message}`);
 
-/** Get tomorrow's day of week in Kyiv timezone */
-function getKyivTomorrowDayOfWeek(): string {
-	const tomorrow = new Date();
-	tomorrow.setDate(tomorrow.getDate() + 1);
-	return getKyivDayOfWeek(tomorrow);
+const EXTRACTION_MODES = ['http', 'browser', 'auto'] as const;
+type ExtractionMode = (typeof EXTRACTION_MODES)[number];
+
+/** Thrown when DTEK answers with an Incapsula challenge instead of the page */
+class WafChallengeError extends Error {
+	constructor(region: DtekRegion, detail: string) {
+		super(`WAF challenge detected for ${region} (${detail})`);
+		this.name = 'WafChallengeError';
+	}
 }
 
 // -----------------------------------------------------------------------------
-// Schedule Compression
+// Extraction
 // -----------------------------------------------------------------------------
 
-type NormalizedStatus = 'yes' | 'maybe' | 'no';
-
-function normalizeStatus(status: ScheduleStatus): NormalizedStatus {
-	if (status === 'yes') return 'yes';
-	if (status === 'maybe' || status === 'mfirst' || status === 'msecond') return 'maybe';
-	return 'no';
-}
-
-function addRange(
-	ranges: ScheduleRange[],
-	from: number,
-	to: number,
-	status: NormalizedStatus
-): void {
-	const last = ranges[ranges.length - 1];
-	if (last && last.to === from && last.status === status) {
-		last.to = to;
-	} else {
-		ranges.push({ from, to, status });
-	}
-}
-
-/**
- * Compress hourly schedule to ranges with normalized statuses
- * Hour key mapping: "1" → 00:00-01:00, "10" → 09:00-10:00
- */
-function compressDaySchedule(dayData: HourlySchedule): ScheduleRange[] {
-	const ranges: ScheduleRange[] = [];
-
-	for (let hourKey = 1; hourKey <= 24; hourKey++) {
-		const rawStatus = dayData[String(hourKey)];
-		if (!rawStatus) continue;
-
-		const hourStart = hourKey - 1;
-
-		if (rawStatus === 'mfirst') {
-			addRange(ranges, hourStart, hourStart + 0.5, 'maybe');
-			addRange(ranges, hourStart + 0.5, hourStart + 1, 'yes');
-		} else if (rawStatus === 'msecond') {
-			addRange(ranges, hourStart, hourStart + 0.5, 'yes');
-			addRange(ranges, hourStart + 0.5, hourStart + 1, 'maybe');
-		} else if (rawStatus === 'first') {
-			addRange(ranges, hourStart, hourStart + 0.5, 'no');
-			addRange(ranges, hourStart + 0.5, hourStart + 1, 'yes');
-		} else if (rawStatus === 'second') {
-			addRange(ranges, hourStart, hourStart + 0.5, 'yes');
-			addRange(ranges, hourStart + 0.5, hourStart + 1, 'no');
-		} else {
-			addRange(ranges, hourStart, hourStart + 1, normalizeStatus(rawStatus));
+/** Extract region data with a plain HTTP request (no browser) */
+async function extractRegionHttp(region: DtekRegion): Promise<DtekCachedRegion> {
+	const result = await fetchTemplate(region);
+	if (!result.ok) {
+		// Incapsula blocks non-browser clients outright with 403
+		if (result.error.httpStatus === 403) {
+			throw new WafChallengeError(region, 'HTTP 403');
 		}
+		throw new Error(formatErrorForLog(result.error));
 	}
 
-	return ranges;
-}
-
-/**
- * Resolve schedules from fact.data (real-time) and preset.data (static).
- * For today: use fact.data if available, else preset.data
- * For tomorrow: always use preset.data
- * Returns pre-compressed ranges ready for storage.
- */
-function resolveSchedules(
-	presetData: unknown,
-	factData: unknown,
-	factToday: number | undefined
-): ScheduleData | null {
-	// Parse preset.data structure: groupId → dayOfWeek → hour → status
-	const preset = presetData as Record<
-		string,
-		Record<string, Record<string, ScheduleStatus>>
-	> | null;
-	if (!preset || typeof preset !== 'object') {
-		return null;
+	const { html, cookies } = result.value;
+	if (isWafChallenge(html)) {
+		throw new WafChallengeError(region, 'challenge page');
 	}
 
-	const todayDow = getKyivDayOfWeek();
-	const tomorrowDow = getKyivTomorrowDayOfWeek();
-
-	// Parse fact.data structure: timestamp → groupId → hour → status
-	// fact.data can be [] (empty) or { timestamp: { groupId: { hour: status } } }
-	const fact = factData as
-		| Record<string, Record<string, Record<string, ScheduleStatus>>>
-		| unknown[]
-		| null;
-	const factTodayData =
-		fact && !Array.isArray(fact) && factToday
-			? (fact[String(factToday)] as Record<string, Record<string, ScheduleStatus>> | undefined)
-			: undefined;
-
-	// Collect all group IDs from both sources
-	const groupIds = new Set<string>();
-	for (const groupId of Object.keys(preset)) {
-		groupIds.add(groupId);
-	}
-	if (factTodayData) {
-		for (const groupId of Object.keys(factTodayData)) {
-			groupIds.add(groupId);
-		}
-	}
-
-	// Build schedule data for each group with compressed ranges
-	const groups: ScheduleData['groups'] = {};
-
-	for (const groupId of Array.from(groupIds)) {
-		// Today: prefer fact, fallback to preset
-		const todayHourly: HourlySchedule =
-			factTodayData?.[groupId] ?? preset[groupId]?.[todayDow] ?? {};
-
-		// Tomorrow: always from preset
-		const tomorrowHourly: HourlySchedule = preset[groupId]?.[tomorrowDow] ?? {};
+	const parsed = parseTemplate(html, region);
+	if (!parsed.ok) throw new Error(formatErrorForLog(parsed.error));
 
-		// Compress hourly data to ranges
-		groups[groupId] = {
-			today: compressDaySchedule(todayHourly),
-			tomorrow: compressDaySchedule(tomorrowHourly),
-		};
-	}
-
-	return {
-		todayDayOfWeek: todayDow,
-		tomorrowDayOfWeek: tomorrowDow,
-		groups,
-	};
+	return buildCachedRegion(region, DTEK_REGION_URLS[region], parsed.value, cookies.toStored());
 }
 
-// -----------------------------------------------------------------------------
-// Extraction
-// -----------------------------------------------------------------------------
-
-async function extractRegion(
+/** Extract region data by loading the page in Playwright */
+async function extractRegionBrowser(
 	context: BrowserContext,
 	region: DtekRegion
 ): Promise<DtekCachedRegion> {
@@ -321,54 +193,177 @@ async function extractRegion(
 			fullPage: true,
 		});
 
-		// Wait for CSRF token
+		// Wait for CSRF token so cookies are settled before we read them
 		const csrfLocator = page.locator('meta[name="csrf-token"]');
 		await csrfLocator.waitFor({ state: 'attached', timeout: 5_000 });
-		const csrf = await csrfLocator.getAttribute('content');
-		if (!csrf) throw new Error('CSRF token is empty');
 
 		// Parse DisconSchedule from RAW HTML (before JS modified/removed it)
 		if (!rawHtml) throw new Error('Failed to capture raw HTML response');
-		const raw = parseDisconSchedule(rawHtml);
-		const validated = DisconScheduleSchema.parse(raw);
-
-		// Normalize streets (can be array for single-city regions or object for multi-city)
-		const streetsByCity: Record<string, string[]> = Array.isArray(validated.streets)
-			? { [DTEK_REGION_CITY_NAMES[region]]: validated.streets }
-			: (validated.streets as Record<string, string[]>);
-
-		// Filter out invalid street entries (empty, whitespace-only, or placeholder like "*")
-		for (const city of Object.keys(streetsByCity)) {
-			streetsByCity[city] = streetsByCity[city].filter(
-				(street) => street && street.trim() && street.trim() !== '*'
-			);
-		}
-
-		// Extract cookies
-		const cookies = (await context.cookies()).map((c) => `${c.name}=${c.value}`).join('; ');
-
-		// Resolve schedules from fact.data (real-time) and preset.data (static)
-		const presetData = (validated.preset as { data?: unknown })?.data ?? null;
-		const factData = validated.fact.data;
-		const factToday = validated.fact.today;
-		const scheduleData = resolveSchedules(presetData, factData, factToday);
-
-		return {
-			region,
-			baseUrl,
-			csrf,
-			cookies,
-			updateFact: validated.fact.update,
-			cities: Object.keys(streetsByCity),
-			streetsByCity,
-			scheduleData,
-			extractedAt: new Date().toISOString(),
-		};
+		const parsed = parseTemplate(rawHtml, region);
+		if (!parsed.ok) throw new Error(formatErrorForLog(parsed.error));
+
+		// Extract cookies with attributes (Playwright expires is in seconds, -1 for session cookies)
+		const cookies: StoredCookie[] = (await context.cookies()).map((c) => ({
+			name: c.name,
+			value: c.value,
+			domain: c.domain.replace(/^\./, ''),
+			path: c.path,
+			...(c.expires > 0 && { expiresAt: c.expires * 1000 }),
+			secure: c.secure,
+			httpOnly: c.httpOnly,
+			sameSite: c.sameSite,
+		}));
+
+		return buildCachedRegion(region, baseUrl, parsed.value, cookies);
 	} finally {
 		await page.close();
 	}
 }
 
+/**
+ * Lazily launched browser shared by all regions
+ * Chromium is only started when a region actually needs it; every extraction
+ * gets its own context so cookies and failures never leak between regions.
+ */
+class LazyBrowser {
+	private browser: Promise<Browser> | null = null;
+
+	constructor(private readonly headed: boolean) {}
+
+	private launch(): Promise<Browser> {
+		if (!this.browser) {
+			console.log(`Launching Chromium (${this.headed ? 'headed' : 'headless'})...`);
+			mkdirSync(VIDEOS_DIR, { recursive: true });
+			this.browser = chromium.launch({ headless: !this.headed });
+		}
+		return this.browser;
+	}
+
+	/** Run fn in a fresh browser context, closing it afterwards */
+	async withContext<T>(fn: (context: BrowserContext) => Promise<T>): Promise<T> {
+		const context = await (
+			await this.launch()
+		).newContext({
+			userAgent: USER_AGENT,
+			recordVideo: { dir: VIDEOS_DIR, size: { width: 1280, height: 720 } },
+		});
+		try {
+			return await fn(context);
+		} finally {
+			await context.close();
+		}
+	}
+
+	async close(): Promise<void> {
+		await (await this.browser)?.close();
+	}
+}
+
+/** Extract region data using the selected mode */
+async function extractRegion(
+	mode: ExtractionMode,
+	browser: LazyBrowser,
+	region: DtekRegion,
+	log: (message: string) => void
+): Promise<DtekCachedRegion> {
+	if (mode === 'browser') {
+		return browser.withContext((context) => extractRegionBrowser(context, region));
+	}
+
+	try {
+		return await extractRegionHttp(region);
+	} catch (error) {
+		if (mode === 'auto' && error instanceof WafChallengeError) {
+			log(`${error.message}, falling back to browser`);
+			return browser.withContext((context) => extractRegionBrowser(context, region));
+		}
+		throw error;
+	}
+}
+
+// -----------------------------------------------------------------------------
+// Session Pool
+// -----------------------------------------------------------------------------
+
+const newSessionId = () => randomUUID().slice(0, 8);
+
+/**
+ * Build a region's session pool: the session of the extracted data plus extra ones
+ * Every extra session comes from its own page load (and browser context), so sessions
+ * share no cookies. A failed extra session only makes the pool smaller.
+ */
+async function extractSessionPool(
+	mode: ExtractionMode,
+	browser: LazyBrowser,
+	region: DtekRegion,
+	data: DtekCachedRegion,
+	size: number,
+	log: (message: string) => void
+): Promise<DtekSessionPool> {
+	const sessions = [sessionFromRegion(data, newSessionId())];
+	for (let i = 2; i <= size; i++) {
+		try {
+			const extra = await extractRegion(mode, browser, region, log);
+			sessions.push(sessionFromRegion(extra, newSessionId()));
+		} catch (error) {
+			log(`Session ${i}/${size} failed: ${error}`);
+		}
+	}
+	return { sessions, updatedAt: new Date().toISOString() };
+}
+
+// -----------------------------------------------------------------------------
+// Refresh Metadata
+// -----------------------------------------------------------------------------
+
+/** Load previous metadata so per-region history survives single-region runs */
+async function loadMeta(redis: Redis): Promise<DtekCacheMeta> {
+	const previous: Partial<DtekCacheMeta> = JSON.parse((await redis.get(DTEK_META_KEY)) ?? '{}');
+	return {
+		lastRefresh: new Date().toISOString(),
+		regionsUpdated: [],
+		errors: previous.errors ?? {},
+		regions: previous.regions ?? {},
+	};
+}
+
+/** Record the outcome of one region's extraction */
+function recordRegion(
+	meta: DtekCacheMeta,
+	region: DtekRegion,
+	startedAt: number,
+	attempts: number,
+	error?: unknown
+): void {
+	const now = new Date().toISOString();
+	meta.regions[region] = {
+		lastAttempt: now,
+		lastSuccess: error ? (meta.regions[region]?.lastSuccess ?? null) : now,
+		durationMs: Date.now() - startedAt,
+		attempts,
+	};
+
+	if (error) {
+		meta.errors[region] = String(error);
+	} else {
+		delete meta.errors[region];
+		meta.regionsUpdated.push(region);
+	}
+}
+
+// -----------------------------------------------------------------------------
+// Summary
+// -----------------------------------------------------------------------------
+
+/** Machine-readable run outcome for the workflow */
+interface RefreshSummary {
+	mode: ExtractionMode;
+	startedAt: string;
+	finishedAt: string;
+	succeeded: DtekRegion[];
+	failed: Array<{ region: DtekRegion; error: string }>;
+}
+
 // -----------------------------------------------------------------------------
 // Main
 // -----------------------------------------------------------------------------
@@ -380,6 +375,19 @@ async function main(): Promise<void> {
 	const regionArg = args.find((a) => a.startsWith('--region='))?.split('=')[1];
 	const regionsToProcess: DtekRegion[] =
 		regionArg && isDtekRegion(regionArg) ? [regionArg] : [...DTEK_REGIONS];
+	const mode = z
+		.enum(EXTRACTION_MODES)
+		.parse(args.find((a) => a.startsWith('--mode='))?.split('=')[1] ?? 'auto');
+	const concurrency = z.coerce
+		.number()
+		.int()
+		.min(1)
+		.parse(args.find((a) => a.startsWith('--concurrency='))?.split('=')[1] ?? DEFAULT_CONCURRENCY);
+	const poolSize = z.coerce
+		.number()
+		.int()
+		.min(1)
+		.parse(args.find((a) => a.startsWith('--pool-size='))?.split('=')[1] ?? DTEK_SESSION_POOL_SIZE);
 
 	// Validate environment
 	const redisUrl = z
@@ -388,31 +396,63 @@ async function main(): Promise<void> {
 		.refine((url) => url.startsWith('redis://') || url.startsWith('rediss://'))
 		.parse(process.env.REDIS_URL);
 
-	console.log(`DTEK Data Refresh (${headed ? 'headed' : 'headless'})`);
+	console.log(
+		`DTEK Data Refresh (mode: ${mode}, concurrency: ${concurrency}, pool size: ${poolSize}, ${headed ? 'headed' : 'headless'})`
+	);
 	console.log(`Regions: ${regionsToProcess.join(', ')}\n`);
 
 	// Create artifacts directories
 	mkdirSync(SCREENSHOTS_DIR, { recursive: true });
-	mkdirSync(VIDEOS_DIR, { recursive: true });
 
 	const redis = new Redis(redisUrl);
-	const browser = await chromium.launch({ headless: !headed });
-	const context = await browser.newContext({
-		userAgent:
-			'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
-		recordVideo: { dir: VIDEOS_DIR, size: { width: 1280, height: 720 } },
-	});
+	const browser = new LazyBrowser(headed);
 
 	const extractedData: Record<string, DtekCachedRegion> = {};
+	const meta = await loadMeta(redis);
+	const summary: RefreshSummary = {
+		mode,
+		startedAt: new Date().toISOString(),
+		finishedAt: '',
+		succeeded: [],
+		failed: [],
+	};
 
 	try {
-		for (const region of regionsToProcess) {
-			console.log(`${region.toUpperCase()}...`);
-			const data = await withRetry(() => extractRegion(context, region), 10);
-			await redis.set(dtekDataKey(region), JSON.stringify(data), 'EX', DTEK_CACHE_TTL);
-			extractedData[region] = data;
-			console.log(`  OK: ${data.cities.length} cities, updated ${data.updateFact}`);
-		}
+		await mapWithConcurrency(regionsToProcess, concurrency, async (region) => {
+			const log = regionLogger(region);
+			const startedAt = Date.now();
+			let attempts = 0;
+			log('Starting...');
+
+			try {
+				const data = await withRetry(
+					log,
+					(attempt) => {
+						attempts = attempt;
+						return extractRegion(mode, browser, region, log);
+					},
+					10
+				);
+				const pool = await extractSessionPool(mode, browser, region, data, poolSize, log);
+				await redis
+					.multi()
+					.set(dtekDataKey(region), JSON.stringify(data), 'EX', DTEK_CACHE_TTL)
+					.set(dtekSessionsKey(region), JSON.stringify(pool), 'EX', DTEK_CACHE_TTL)
+					.del(dtekSessionStatsKey(region))
+					.exec();
+				extractedData[region] = data;
+				recordRegion(meta, region, startedAt, attempts);
+				summary.succeeded.push(region);
+				log(
+					`OK: ${data.cities.length} cities, ${pool.sessions.length} sessions, updated ${data.updateFact}`
+				);
+			} catch (error) {
+				// Leave the previous dtek:data:{region} untouched so readers keep the last good copy
+				recordRegion(meta, region, startedAt, attempts, error);
+				summary.failed.push({ region, error: String(error) });
+				log(`FAILED: ${error}`);
+			}
+		});
 
 		// Save extracted data to JSON file for debugging/artifacts
 		writeFileSync(
@@ -427,11 +467,20 @@ async function main(): Promise<void> {
 			)
 		);
 		console.log(`\nSaved extracted data to ${DATA_FILE}`);
-		console.log('Done');
 	} finally {
+		await redis.set(DTEK_META_KEY, JSON.stringify(meta));
 		await browser.close();
 		await redis.quit();
 	}
+
+	summary.finishedAt = new Date().toISOString();
+	writeFileSync(SUMMARY_FILE, JSON.stringify(summary, null, 2));
+	console.log(`\nSummary: ${JSON.stringify(summary)}`);
+
+	if (summary.succeeded.length === 0) {
+		throw new Error('All regions failed');
+	}
+	console.log('Done');
 }
 
 main().catch((error) => {
@@ -4,6 +4,7 @@ export { default as CitySelect } from './CitySelect.svelte';
 export { default as CollapsibleSection } from './CollapsibleSection.svelte';
 export { default as ErrorMessage } from './ErrorMessage.svelte';
 export { default as FormErrorBanner } from './FormErrorBanner.svelte';
+export { default as GroupSelect } from './GroupSelect.svelte';
 export { default as RegionSelect } from './RegionSelect.svelte';
 export { default as ScheduleDisplay } from './ScheduleDisplay.svelte';
 export { default as ScheduleList } from './ScheduleList.svelte';
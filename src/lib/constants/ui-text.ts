@@ -1,4 +1,4 @@
-import type { ScheduleStatus } from '$lib/types/dtek.js';
+import type { ScheduleStatus, ScheduleSource } from '$lib/types/dtek.js';
 
 /**
  * UI text constants in Ukrainian
@@ -39,6 +39,15 @@ export const UI_TEXT = {
 	delete: 'Видалити',
 	confirmDelete: 'Видалити цю адресу?',
 
+	// Group-only entries (queue without an address)
+	entryTypeAddress: 'Адреса',
+	entryTypeGroup: 'Лише черга',
+	group: 'Черга',
+	groupPlaceholder: 'Оберіть чергу...',
+	groupHint: 'Якщо ви знаєте лише номер своєї черги (гуртожиток, офіс)',
+	editGroup: 'Редагувати чергу',
+	nextChangeIn: 'Зміна через',
+
 	// Status
 	status: 'Статус',
 	noOutage: 'Відключень немає',
@@ -54,6 +63,8 @@ export const UI_TEXT = {
 	regionUnavailable: 'Регіон тимчасово недоступний. Спробуйте пізніше або оберіть інший регіон.',
 	tryLater: 'Спробуйте пізніше',
 	addressNotFound: 'Адресу не знайдено',
+	groupNotFound: 'Чергу не знайдено',
+	didYouMean: 'Можливо, ви мали на увазі',
 	invalidParams: 'Невірні параметри',
 	networkError: "Немає з'єднання",
 	checkInternet: 'Перевірте інтернет',
@@ -62,6 +73,15 @@ export const UI_TEXT = {
 	streetRequired: "Назва вулиці обов'язкова",
 	noResults: 'Нічого не знайдено',
 
+	// Data freshness
+	staleDataPrefix: 'Дані для',
+	staleDataUpdated: 'востаннє оновлено',
+	staleDataNever: 'ще не оновлювались',
+	staleStatus: 'дані застаріли',
+
+	// QA time travel (?now=, dev only)
+	timeTravel: 'Тестовий час',
+
 	// Time units for relative time formatting
 	time: {
 		justNow: 'щойно',
@@ -72,6 +92,9 @@ export const UI_TEXT = {
 		weeksAgo: 'тиж тому',
 		monthsAgo: 'міс тому',
 		yearsAgo: 'рок тому',
+		minutes: 'хв',
+		hours: 'год',
+		days: 'дн',
 	},
 
 	// Month names in Ukrainian (genitive case for date formatting)
@@ -122,6 +145,14 @@ export const SCHEDULE_STATUS_COLORS: Record<ScheduleStatus, string> = {
 	second: 'bg-red-500',
 };
 
+/**
+ * Labels for schedule source: actual DTEK schedule vs weekly forecast
+ */
+export const SCHEDULE_SOURCE_LABELS: Record<ScheduleSource, string> = {
+	fact: 'факт',
+	preset: 'прогноз',
+};
+
 /**
  * Full Ukrainian day names (1=Monday, 7=Sunday)
  */
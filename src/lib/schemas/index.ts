@@ -27,7 +27,7 @@ export type RegionCodeValidated = z.infer<typeof regionCodeSchema>;
 // =============================================================================
 
 /**
- * Query params for /api/cities endpoint
+ * Query params for /api/cities and /api/groups endpoints
  */
 export const regionQuerySchema = z.object({
 	region: regionCodeSchema,
@@ -56,6 +56,40 @@ export const statusQuerySchema = z.object({
 
 export type StatusQuery = z.infer<typeof statusQuerySchema>;
 
+/**
+ * Query params for /api/building endpoint (also one address of a status batch)
+ */
+export const buildingQuerySchema = statusQuerySchema.extend({
+	building: z.string().min(1, "Параметр building обов'язковий"),
+});
+
+export type BuildingQuery = z.infer<typeof buildingQuerySchema>;
+
+/**
+ * Query params for /api/schedule endpoint
+ */
+export const groupQuerySchema = z.object({
+	region: regionCodeSchema,
+	group: z.string().min(1, "Параметр group обов'язковий"),
+});
+
+export type GroupQuery = z.infer<typeof groupQuerySchema>;
+
+/** Most addresses accepted by one /api/status/batch request */
+export const BATCH_STATUS_MAX_ADDRESSES = 50;
+
+/**
+ * Body for POST /api/status/batch
+ */
+export const batchStatusRequestSchema = z.object({
+	addresses: z
+		.array(buildingQuerySchema)
+		.min(1, 'Список адрес порожній')
+		.max(BATCH_STATUS_MAX_ADDRESSES, `Не більше ${BATCH_STATUS_MAX_ADDRESSES} адрес за запит`),
+});
+
+export type BatchStatusRequest = z.infer<typeof batchStatusRequestSchema>;
+
 // =============================================================================
 // DTEK External API Response Schemas
 // =============================================================================
@@ -82,6 +116,7 @@ export type DtekBuildingStatusValidated = z.infer<typeof dtekBuildingStatusSchem
 export const dtekStatusResponseSchema = z.object({
 	result: z.boolean(),
 	data: z.record(z.string(), dtekBuildingStatusSchema),
+	updateTimestamp: z.string().optional(),
 });
 
 export type DtekStatusResponseValidated = z.infer<typeof dtekStatusResponseSchema>;
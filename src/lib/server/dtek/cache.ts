@@ -1,3 +1,5 @@
+import type { CacheStats } from '$lib/types';
+
 /**
  * Internal cache entry structure
  */
@@ -6,35 +8,69 @@ interface CacheEntry<T> {
 	expiresAt: number;
 }
 
+/**
+ * Optional limits for TtlCache
+ */
+export interface TtlCacheOptions {
+	/** Maximum entries kept; least recently used entries are evicted beyond this */
+	maxEntries?: number;
+	/** Minimum time between sweeps of expired entries (run lazily on writes) */
+	sweepIntervalMs?: number;
+}
+
+/** Default sweep interval: once a minute at most */
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
 /**
  * Generic in-memory TTL cache with automatic expiration
+ *
+ * Entries that are never read again are removed by a periodic sweep, and an optional
+ * maxEntries cap evicts the least recently used entries, so long-lived instances
+ * don't grow without bound. The sweep piggybacks on writes instead of a timer,
+ * which would keep serverless instances and tests alive.
  */
 export class TtlCache<T> {
 	private cache: Map<string, CacheEntry<T>>;
 	private defaultTtlMs: number;
+	private readonly maxEntries: number;
+	private readonly sweepIntervalMs: number;
+	private nextSweepAt: number;
+	private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
 
-	constructor(defaultTtlMs: number) {
+	constructor(defaultTtlMs: number, options: TtlCacheOptions = {}) {
 		this.cache = new Map();
 		this.defaultTtlMs = defaultTtlMs;
+		this.maxEntries = options.maxEntries ?? Infinity;
+		this.sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+		this.nextSweepAt = Date.now() + this.sweepIntervalMs;
 	}
 
 	/**
 	 * Get value from cache
+	 * Marks the entry as most recently used.
 	 * @returns The cached value or null if missing or expired
 	 */
 	get(key: string): T | null {
 		const entry = this.cache.get(key);
 
 		if (!entry) {
+			this.counters.misses++;
 			return null;
 		}
 
 		// Check if expired
 		if (Date.now() >= entry.expiresAt) {
 			this.cache.delete(key);
+			this.counters.expirations++;
+			this.counters.misses++;
 			return null;
 		}
 
+		// Map keeps insertion order: re-insert to move the entry to the most recent end
+		this.cache.delete(key);
+		this.cache.set(key, entry);
+
+		this.counters.hits++;
 		return entry.data;
 	}
 
@@ -46,11 +82,84 @@ export class TtlCache<T> {
 	 */
 	set(key: string, value: T, ttlMs?: number): void {
 		const ttl = ttlMs ?? this.defaultTtlMs;
-		const expiresAt = Date.now() + ttl;
+		const now = Date.now();
+		const expiresAt = now + ttl;
 
+		this.cache.delete(key);
 		this.cache.set(key, {
 			data: value,
 			expiresAt,
 		});
+
+		if (now >= this.nextSweepAt) {
+			this.sweep();
+		}
+
+		if (this.cache.size > this.maxEntries) {
+			// Expired entries go first, then the least recently used ones
+			this.sweep();
+			for (const oldest of this.cache.keys()) {
+				if (this.cache.size <= this.maxEntries) break;
+				this.cache.delete(oldest);
+				this.counters.evictions++;
+			}
+		}
+	}
+
+	/**
+	 * Check if a key holds an unexpired value (does not affect recency or counters)
+	 */
+	has(key: string): boolean {
+		const entry = this.cache.get(key);
+		return !!entry && Date.now() < entry.expiresAt;
+	}
+
+	/**
+	 * Remove a key
+	 * @returns true if the key was present
+	 */
+	delete(key: string): boolean {
+		return this.cache.delete(key);
+	}
+
+	/**
+	 * Remove all entries (counters are kept)
+	 */
+	clear(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Remove all expired entries
+	 * @returns Number of entries removed
+	 */
+	sweep(): number {
+		const now = Date.now();
+		let removed = 0;
+
+		for (const [key, entry] of this.cache) {
+			if (now >= entry.expiresAt) {
+				this.cache.delete(key);
+				removed++;
+			}
+		}
+
+		this.counters.expirations += removed;
+		this.nextSweepAt = now + this.sweepIntervalMs;
+		return removed;
+	}
+
+	/**
+	 * Number of stored entries (may include expired ones not yet swept)
+	 */
+	get size(): number {
+		return this.cache.size;
+	}
+
+	/**
+	 * Snapshot of size and hit/miss/eviction counters for logs or metrics
+	 */
+	stats(): CacheStats {
+		return { size: this.cache.size, ...this.counters };
 	}
 }
@@ -0,0 +1,128 @@
+/**
+ * Circuit breaker for outbound DTEK requests
+ *
+ * When a DTEK subdomain is down, every request would otherwise spend seconds in
+ * retries before failing, while hammering the dead origin. After enough consecutive
+ * upstream failures the breaker opens and requests short-circuit immediately; once the
+ * open period passes, a single probe request is let through to test recovery.
+ */
+
+import type { CircuitHealth, CircuitState, DtekError } from '$lib/types';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+	/** Consecutive upstream failures that open the circuit */
+	failureThreshold: number;
+	/** How long the circuit stays open before a probe is allowed */
+	openDurationMs: number;
+}
+
+/**
+ * Check whether an error means DTEK itself is failing
+ * Local conditions (rate limiting, KV, bad input) say nothing about the origin's health.
+ */
+export function isUpstreamFailure(error: DtekError): boolean {
+	return (
+		error.code === 'NETWORK_ERROR' ||
+		error.code === 'PARSE_ERROR' ||
+		error.code === 'SESSION_ERROR' ||
+		error.code === 'BLOCKED'
+	);
+}
+
+/**
+ * Closed → open → half-open circuit breaker
+ */
+export class CircuitBreaker {
+	private readonly options: CircuitBreakerOptions;
+	private current: CircuitState = 'closed';
+	private consecutiveFailures = 0;
+	private openedAt: number | null = null;
+	private probeInFlight = false;
+
+	constructor(options: CircuitBreakerOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Current state, moving from open to half-open once the open period has passed
+	 */
+	get state(): CircuitState {
+		if (
+			this.current === 'open' &&
+			this.openedAt !== null &&
+			Date.now() >= this.openedAt + this.options.openDurationMs
+		) {
+			this.current = 'half-open';
+		}
+		return this.current;
+	}
+
+	/**
+	 * Ask for permission to call DTEK
+	 * In half-open state only one probe is allowed at a time.
+	 * Every granted call must be followed by recordSuccess/recordFailure/recordIgnored.
+	 */
+	tryAcquire(): boolean {
+		switch (this.state) {
+			case 'closed':
+				return true;
+			case 'open':
+				return false;
+			case 'half-open':
+				if (this.probeInFlight) return false;
+				this.probeInFlight = true;
+				return true;
+		}
+	}
+
+	/**
+	 * DTEK answered: close the circuit
+	 */
+	recordSuccess(): void {
+		this.current = 'closed';
+		this.consecutiveFailures = 0;
+		this.openedAt = null;
+		this.probeInFlight = false;
+	}
+
+	/**
+	 * DTEK failed: open the circuit after a failed probe or too many failures in a row
+	 * @returns true when this failure opened the circuit
+	 */
+	recordFailure(): boolean {
+		const wasOpen = this.current === 'open';
+		this.consecutiveFailures++;
+		if (this.probeInFlight || this.consecutiveFailures >= this.options.failureThreshold) {
+			this.current = 'open';
+			this.openedAt = Date.now();
+		}
+		this.probeInFlight = false;
+		return !wasOpen && this.current === 'open';
+	}
+
+	/**
+	 * Call finished without telling anything about DTEK's health (e.g., rate limited)
+	 */
+	recordIgnored(): void {
+		this.probeInFlight = false;
+	}
+
+	/**
+	 * Snapshot for the health endpoint
+	 */
+	snapshot(): CircuitHealth {
+		const state = this.state;
+		return {
+			state,
+			consecutiveFailures: this.consecutiveFailures,
+			openedAt: this.openedAt,
+			nextProbeAt:
+				state === 'open' && this.openedAt !== null
+					? this.openedAt + this.options.openDurationMs
+					: null,
+		};
+	}
+}
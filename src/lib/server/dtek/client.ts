@@ -2,15 +2,35 @@
  * DTEK HTTP client module with cookie management
  *
  * Provides low-level HTTP operations for interacting with DTEK API:
- * - CookieJar for managing session cookies
+ * - CookieJar for managing session cookies (with attributes and expiry)
  * - fetchTemplate() for initial page load
- * - fetchBuildingStatuses() for querying building status
+ * - fetchBuildingStatuses() for querying building status (rate limited per region)
  */
 
-import type { DtekStatusResponse, Result, NetworkError, ParseError } from '$lib/types';
-import { ok, err, networkError, parseError } from '$lib/types';
+import type {
+	DtekStatusResponse,
+	Result,
+	NetworkError,
+	ParseError,
+	SessionError,
+	BlockedError,
+	UpstreamRejectedError,
+	RateLimitedError,
+} from '$lib/types';
+import {
+	ok,
+	err,
+	networkError,
+	parseError,
+	sessionError,
+	blockedError,
+	upstreamRejectedError,
+} from '$lib/types';
 import { dtekStatusResponseSchema } from '$lib/schemas';
+import { parseDtekDate } from '$lib/utils/kyiv-time';
 import { getRegionConfig, type RegionCode } from '$lib/constants/regions';
+import { getRegionLimiter } from './rate-limiter';
+import { getSessionExpiresAt, isDtekSessionCookie, type StoredCookie } from '$lib/types/dtek-cache';
 
 // URL generators
 export function getBaseUrl(region: RegionCode): string {
@@ -28,75 +48,259 @@ export function getAjaxUrl(region: RegionCode): string {
 export const USER_AGENT =
 	'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36';
 
+/**
+ * HTTP statuses DTEK uses to reject a stale CSRF token or session cookie
+ * (400 Bad Request, 403 Forbidden, 419 Page Expired)
+ */
+export const SESSION_REJECTED_STATUSES: readonly number[] = [400, 403, 419];
+
+/**
+ * Markers of an Incapsula (Imperva) WAF challenge page
+ * Served instead of the real page when the client is suspected to be a bot
+ */
+const WAF_CHALLENGE_MARKERS = [
+	'_Incapsula_Resource',
+	'Incapsula incident ID',
+	'Request unsuccessful. Incapsula',
+];
+
+/**
+ * Check if HTML is an Incapsula WAF challenge instead of the real DTEK page
+ * @param html - Response body
+ */
+export function isWafChallenge(html: string): boolean {
+	return WAF_CHALLENGE_MARKERS.some((marker) => html.includes(marker));
+}
+
+/**
+ * Check if a response body looks like an HTML page instead of JSON
+ * DTEK answers AJAX calls with its HTML shell when the session is no longer valid
+ */
+function looksLikeHtml(text: string, contentType: string | null): boolean {
+	if (contentType?.includes('text/html')) return true;
+	return /^\s*</.test(text);
+}
+
+/**
+ * Detect a bot protection answer to an AJAX call
+ * Incapsula replies with its own HTML (JS challenge, CAPTCHA or block page) or with
+ * HTTP 429; neither is something the CSRF token or session cookies can fix.
+ * @returns Block reason and incident ID, or null when the response came from DTEK
+ */
+function detectBlock(
+	status: number,
+	contentType: string | null,
+	text: string
+): Pick<BlockedError, 'reason' | 'incidentId'> | null {
+	if (status === 429) return { reason: 'too_many_requests' };
+	if (!looksLikeHtml(text, contentType) || !isWafChallenge(text)) return null;
+
+	const incidentId = text.match(/incident ID:?\s*([\w-]+)/i)?.[1];
+	return {
+		reason: /captcha/i.test(text) ? 'captcha' : 'challenge',
+		...(incidentId && { incidentId }),
+	};
+}
+
+/**
+ * Check whether DTEK answered from data older than the page the updateFact came from
+ * A newer updateTimestamp is normal (data changed since the template was loaded); an older
+ * one means the statuses don't belong with the schedules served next to them.
+ * @param updateTimestamp - From the response ("HH:MM DD.MM.YYYY")
+ * @param updateFact - Sent with the request ("DD.MM.YYYY HH:MM")
+ */
+function isOlderThanUpdateFact(updateTimestamp: string | undefined, updateFact: string): boolean {
+	if (!updateTimestamp) return false;
+
+	const [date, time] = updateFact.trim().split(' ');
+	try {
+		return parseDtekDate(updateTimestamp) < parseDtekDate(`${time} ${date}`);
+	} catch {
+		// Formats we don't know are not worth failing the request over
+		return false;
+	}
+}
+
+/**
+ * Parse a single Set-Cookie header into a cookie with attributes (RFC 6265 section 5.2)
+ * @param header - Set-Cookie header value
+ * @param now - Reception time, the base for Max-Age
+ * @returns Parsed cookie, or null for headers without a valid name
+ */
+function parseSetCookie(header: string, now: number): StoredCookie | null {
+	const [pair, ...attributes] = header.split(';');
+	const eqIndex = pair.indexOf('=');
+	if (eqIndex <= 0) return null;
+
+	const name = pair.slice(0, eqIndex).trim();
+	const value = pair.slice(eqIndex + 1).trim();
+	if (!name) return null;
+
+	const cookie: StoredCookie = { name, value, path: '/' };
+	let maxAgeExpiry: number | undefined;
+	let expiresExpiry: number | undefined;
+
+	for (const attribute of attributes) {
+		const attrEq = attribute.indexOf('=');
+		const key = (attrEq === -1 ? attribute : attribute.slice(0, attrEq)).trim().toLowerCase();
+		const attrValue = attrEq === -1 ? '' : attribute.slice(attrEq + 1).trim();
+
+		switch (key) {
+			case 'max-age': {
+				// Max-Age must be an integer; invalid values are ignored
+				if (!/^-?\d+$/.test(attrValue)) break;
+				const seconds = Number(attrValue);
+				maxAgeExpiry = seconds <= 0 ? 0 : now + seconds * 1000;
+				break;
+			}
+			case 'expires': {
+				const time = Date.parse(attrValue);
+				if (!isNaN(time)) expiresExpiry = time;
+				break;
+			}
+			case 'domain':
+				if (attrValue) cookie.domain = attrValue.replace(/^\./, '').toLowerCase();
+				break;
+			case 'path':
+				if (attrValue.startsWith('/')) cookie.path = attrValue;
+				break;
+			case 'secure':
+				cookie.secure = true;
+				break;
+			case 'httponly':
+				cookie.httpOnly = true;
+				break;
+			case 'samesite':
+				cookie.sameSite = attrValue;
+				break;
+		}
+	}
+
+	// Max-Age takes precedence over Expires
+	const expiresAt = maxAgeExpiry ?? expiresExpiry;
+	if (expiresAt !== undefined) cookie.expiresAt = expiresAt;
+
+	return cookie;
+}
+
 /**
  * Cookie jar for managing session cookies from DTEK
+ * Keeps cookie attributes so expired cookies are never sent and deletions are honoured.
+ * Cookies are identified by name, domain and path, as browsers do.
  */
 export class CookieJar {
-	private cookies: Map<string, string>;
+	private cookies: Map<string, StoredCookie>;
 
 	constructor() {
 		this.cookies = new Map();
 	}
 
+	private static key(cookie: StoredCookie): string {
+		return `${cookie.name};${cookie.domain ?? ''};${cookie.path}`;
+	}
+
 	/**
-	 * Create CookieJar from semicolon-separated cookie string
-	 * @param cookieString - Cookies in "name=val; name2=val2" format
+	 * Create CookieJar from a Cookie header style string
+	 * @param cookieString - Cookies in "name=val; name2=val2" format (any whitespace after ";")
 	 */
 	static fromString(cookieString: string): CookieJar {
 		const jar = new CookieJar();
 		if (!cookieString) return jar;
 
-		for (const pair of cookieString.split('; ')) {
+		for (const pair of cookieString.split(';')) {
 			const eqIndex = pair.indexOf('=');
 			if (eqIndex <= 0) continue;
 			const name = pair.slice(0, eqIndex).trim();
 			const value = pair.slice(eqIndex + 1).trim();
-			jar.cookies.set(name, value);
+			if (!name) continue;
+			jar.set({ name, value, path: '/' });
 		}
 		return jar;
 	}
 
+	/**
+	 * Create CookieJar from cookies stored in KV
+	 * @param cookies - Cookies with attributes, or a legacy "name=val; name2=val2" string
+	 */
+	static fromStored(cookies: StoredCookie[] | string): CookieJar {
+		if (typeof cookies === 'string') return CookieJar.fromString(cookies);
+
+		const jar = new CookieJar();
+		for (const cookie of cookies) {
+			jar.set(cookie);
+		}
+		return jar;
+	}
+
+	private set(cookie: StoredCookie): void {
+		this.cookies.set(CookieJar.key(cookie), cookie);
+	}
+
 	/**
 	 * Parse and absorb Set-Cookie headers
+	 * Cookies that arrive already expired (Max-Age=0, past Expires) delete the stored cookie.
 	 * @param setCookieHeaders - Array of Set-Cookie header values
+	 * @param now - Reception time (defaults to now)
 	 */
-	absorb(setCookieHeaders: string[]): void {
+	absorb(setCookieHeaders: string[], now: number = Date.now()): void {
 		for (const header of setCookieHeaders) {
-			// Extract name=value from "name=value; Path=/; ..."
-			const pair = header.split(';', 1)[0];
-			const eqIndex = pair.indexOf('=');
-			if (eqIndex <= 0) continue;
-
-			const name = pair.slice(0, eqIndex).trim();
-			const value = pair.slice(eqIndex + 1).trim();
-			this.cookies.set(name, value);
+			const cookie = parseSetCookie(header, now);
+			if (!cookie) continue;
+
+			if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+				this.cookies.delete(CookieJar.key(cookie));
+			} else {
+				this.set(cookie);
+			}
 		}
 	}
 
 	/**
-	 * Get all cookies in "name=value; name2=value2" format
+	 * Cookies that have not expired yet
 	 */
-	getHeader(): string {
-		return Array.from(this.cookies.entries())
-			.map(([k, v]) => `${k}=${v}`)
+	private live(now: number): StoredCookie[] {
+		return Array.from(this.cookies.values()).filter(
+			(cookie) => cookie.expiresAt === undefined || cookie.expiresAt > now
+		);
+	}
+
+	/**
+	 * Get all unexpired cookies in "name=value; name2=value2" format
+	 */
+	getHeader(now: number = Date.now()): string {
+		return this.live(now)
+			.map((cookie) => `${cookie.name}=${cookie.value}`)
 			.join('; ');
 	}
 
 	/**
-	 * Get only essential cookies needed for DTEK requests
+	 * Get only essential unexpired cookies needed for DTEK requests
 	 * Filters to: dtek-{region}, _csrf-dtek-{region}, _language, visid_incap_*, incap_ses_*, incap_wrt_*
 	 * @param region - Region code for cookie name matching
 	 */
-	getFiltered(region: RegionCode): string {
-		const keepPattern = new RegExp(
-			`^(dtek-${region}|_csrf-dtek-${region}|_language|visid_incap_|incap_ses_|incap_wrt_)`
-		);
-		return Array.from(this.cookies.entries())
-			.filter(([name]) => keepPattern.test(name))
-			.map(([k, v]) => `${k}=${v}`)
+	getFiltered(region: RegionCode, now: number = Date.now()): string {
+		return this.live(now)
+			.filter((cookie) => isDtekSessionCookie(cookie.name, region))
+			.map((cookie) => `${cookie.name}=${cookie.value}`)
 			.join('; ');
 	}
 
+	/**
+	 * Get unexpired cookies with attributes for storing in KV
+	 */
+	toStored(now: number = Date.now()): StoredCookie[] {
+		return this.live(now).map((cookie) => ({ ...cookie }));
+	}
+
+	/**
+	 * Get when the first essential session cookie expires
+	 * @param region - Region code for cookie name matching
+	 * @returns Expiry in ms since epoch, or null when no session cookie expires
+	 */
+	getSessionExpiresAt(region: RegionCode): number | null {
+		return getSessionExpiresAt(Array.from(this.cookies.values()), region);
+	}
+
 	/**
 	 * Clear all cookies
 	 */
@@ -204,12 +408,38 @@ export interface FetchBuildingStatusesParams {
 
 /**
  * Fetch building statuses for a city + street
+ * Waits for a slot in the region's rate limiter before calling DTEK.
  * @param params - Request parameters
- * @returns Result with DTEK status response, or NetworkError/ParseError
+ * @returns Result with DTEK status response, or NetworkError/ParseError,
+ *          or SessionError when DTEK rejects the CSRF token/cookies,
+ *          or BlockedError when Incapsula answers with a challenge instead of DTEK,
+ *          or UpstreamRejectedError when DTEK answers result:false or from outdated data,
+ *          or RateLimitedError when no request slot was available in time
  */
-export async function fetchBuildingStatuses(
+export function fetchBuildingStatuses(
+	params: FetchBuildingStatusesParams
+): Promise<
+	Result<
+		DtekStatusResponse,
+		| NetworkError
+		| ParseError
+		| SessionError
+		| BlockedError
+		| UpstreamRejectedError
+		| RateLimitedError
+	>
+> {
+	return getRegionLimiter(params.region).run(() => requestBuildingStatuses(params));
+}
+
+async function requestBuildingStatuses(
 	params: FetchBuildingStatusesParams
-): Promise<Result<DtekStatusResponse, NetworkError | ParseError>> {
+): Promise<
+	Result<
+		DtekStatusResponse,
+		NetworkError | ParseError | SessionError | BlockedError | UpstreamRejectedError
+	>
+> {
 	const { region, city, street, updateFact, csrf, cookies } = params;
 
 	// Generate URLs for this region
@@ -254,6 +484,28 @@ export async function fetchBuildingStatuses(
 		const setCookieHeaders = getSetCookieHeaders(response.headers);
 		cookies.absorb(setCookieHeaders);
 
+		const text = await response.text();
+
+		// Bot protection first: its 403 pages would otherwise pass for a rejected session
+		const block = detectBlock(response.status, response.headers.get('content-type'), text);
+		if (block) {
+			return err(
+				blockedError(block.reason, `DTEK request blocked by Incapsula (${block.reason})`, {
+					httpStatus: response.status,
+					region,
+					incidentId: block.incidentId,
+				})
+			);
+		}
+
+		if (SESSION_REJECTED_STATUSES.includes(response.status)) {
+			return err(
+				sessionError('invalid', `DTEK API rejected session with HTTP ${response.status}`, {
+					httpStatus: response.status,
+				})
+			);
+		}
+
 		if (!response.ok) {
 			return err(
 				networkError(ajaxUrl, `DTEK API returned HTTP ${response.status}`, {
@@ -262,7 +514,13 @@ export async function fetchBuildingStatuses(
 			);
 		}
 
-		const text = await response.text();
+		if (looksLikeHtml(text, response.headers.get('content-type'))) {
+			return err(
+				sessionError('invalid', 'DTEK API returned HTML instead of JSON', {
+					httpStatus: response.status,
+				})
+			);
+		}
 
 		// Parse JSON
 		let rawJson: unknown;
@@ -291,7 +549,28 @@ export async function fetchBuildingStatuses(
 			);
 		}
 
-		return ok(validationResult.data as DtekStatusResponse);
+		const data = validationResult.data as DtekStatusResponse;
+
+		if (!data.result) {
+			return err(
+				upstreamRejectedError('result_false', 'DTEK API answered result:false', {
+					region,
+					updateFact,
+				})
+			);
+		}
+
+		if (isOlderThanUpdateFact(data.updateTimestamp, updateFact)) {
+			return err(
+				upstreamRejectedError('update_mismatch', 'DTEK API answered from outdated data', {
+					region,
+					updateFact,
+					updateTimestamp: data.updateTimestamp,
+				})
+			);
+		}
+
+		return ok(data);
 	} catch (cause) {
 		return err(
 			networkError(ajaxUrl, 'Failed to fetch building statuses from DTEK', {
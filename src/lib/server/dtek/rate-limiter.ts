@@ -0,0 +1,222 @@
+/**
+ * Outbound rate limiting for DTEK requests
+ *
+ * Bursts of requests to www.dtek-*.com.ua are what gets session cookies blocked by
+ * Incapsula, so every region gets a token bucket (sustained rate + burst) combined with
+ * a concurrency cap. Requests that can't start immediately wait in a FIFO queue for up
+ * to a configured time, then fail with RateLimitedError instead of piling up.
+ */
+
+import type { Result, RateLimitedError } from '$lib/types';
+import { ok, err, rateLimitedError } from '$lib/types';
+import type { RegionCode } from '$lib/constants/regions';
+import { getDtekLimitsEnv } from '$lib/server/env';
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions {
+	/** Tokens added per second (sustained request rate) */
+	ratePerSecond: number;
+	/** Bucket capacity (requests allowed in a burst) */
+	burst: number;
+	/** Requests allowed in flight at once */
+	maxConcurrent: number;
+	/** Requests allowed to wait; further requests are rejected immediately */
+	maxQueueSize: number;
+	/** Longest a queued request waits for a slot */
+	maxQueueWaitMs: number;
+}
+
+/**
+ * Queued request waiting for a slot
+ */
+interface Waiter {
+	grant: () => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Token bucket + concurrency limiter with a bounded FIFO queue
+ */
+export class RateLimiter {
+	private readonly region: string;
+	private readonly options: RateLimiterOptions;
+	private tokens: number;
+	private lastRefill: number;
+	private active = 0;
+	private readonly queue: Waiter[] = [];
+	private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(region: string, options: RateLimiterOptions) {
+		this.region = region;
+		this.options = options;
+		this.tokens = options.burst;
+		this.lastRefill = Date.now();
+	}
+
+	/**
+	 * Run an operation once a slot is available
+	 * @returns The operation's result, or RateLimitedError when no slot was granted in time
+	 */
+	async run<T, E>(fn: () => Promise<Result<T, E>>): Promise<Result<T, E | RateLimitedError>> {
+		const slot = await this.acquire();
+		if (!slot.ok) return slot;
+
+		try {
+			return await fn();
+		} finally {
+			this.release();
+		}
+	}
+
+	/** Requests currently in flight */
+	get activeCount(): number {
+		return this.active;
+	}
+
+	/** Requests currently waiting for a slot */
+	get queuedCount(): number {
+		return this.queue.length;
+	}
+
+	private acquire(): Promise<Result<void, RateLimitedError>> {
+		// Only skip the queue when nobody is waiting, so the queue stays FIFO
+		if (this.queue.length === 0 && this.tryTake()) {
+			return Promise.resolve(ok(undefined));
+		}
+
+		if (this.queue.length >= this.options.maxQueueSize) {
+			return Promise.resolve(
+				err(
+					rateLimitedError(
+						'queue_full',
+						`DTEK request queue is full (${this.queue.length} waiting)`,
+						this.estimateWaitMs(),
+						{ region: this.region }
+					)
+				)
+			);
+		}
+
+		return new Promise((resolve) => {
+			const waiter: Waiter = {
+				grant: () => {
+					clearTimeout(waiter.timer);
+					resolve(ok(undefined));
+				},
+				timer: setTimeout(() => {
+					this.queue.splice(this.queue.indexOf(waiter), 1);
+					resolve(
+						err(
+							rateLimitedError(
+								'queue_timeout',
+								`No DTEK request slot within ${this.options.maxQueueWaitMs}ms`,
+								this.estimateWaitMs(),
+								{ region: this.region }
+							)
+						)
+					);
+				}, this.options.maxQueueWaitMs),
+			};
+
+			this.queue.push(waiter);
+			this.scheduleDrain();
+		});
+	}
+
+	private release(): void {
+		this.active--;
+		this.drain();
+	}
+
+	/**
+	 * Take a token and a concurrency slot if both are available
+	 */
+	private tryTake(): boolean {
+		this.refill();
+		if (this.active >= this.options.maxConcurrent || this.tokens < 1) {
+			return false;
+		}
+		this.tokens--;
+		this.active++;
+		return true;
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		const elapsedSeconds = (now - this.lastRefill) / 1000;
+		this.tokens = Math.min(
+			this.options.burst,
+			this.tokens + elapsedSeconds * this.options.ratePerSecond
+		);
+		this.lastRefill = now;
+	}
+
+	/**
+	 * Grant slots to queued requests in order, as far as tokens and concurrency allow
+	 */
+	private drain(): void {
+		while (this.queue.length > 0 && this.tryTake()) {
+			this.queue.shift()!.grant();
+		}
+		this.scheduleDrain();
+	}
+
+	/**
+	 * Wake up when the next token is due
+	 * Not needed while at the concurrency cap: the next release drains the queue.
+	 */
+	private scheduleDrain(): void {
+		if (this.drainTimer || this.queue.length === 0) return;
+		if (this.active >= this.options.maxConcurrent) return;
+
+		this.refill();
+		const waitMs = Math.max(0, Math.ceil(((1 - this.tokens) / this.options.ratePerSecond) * 1000));
+		this.drainTimer = setTimeout(() => {
+			this.drainTimer = null;
+			this.drain();
+		}, waitMs);
+	}
+
+	/**
+	 * Rough time until a new request would get a slot, for Retry-After
+	 */
+	private estimateWaitMs(): number {
+		const backlog = this.queue.length + 1 - this.tokens;
+		return Math.max(1000, Math.ceil((backlog / this.options.ratePerSecond) * 1000));
+	}
+}
+
+// ============================================================================
+// Per-region Registry
+// ============================================================================
+
+const limiters = new Map<RegionCode, RateLimiter>();
+
+/**
+ * Get the rate limiter for a region
+ * Lazily created from the validated env on first use
+ */
+export function getRegionLimiter(region: RegionCode): RateLimiter {
+	let limiter = limiters.get(region);
+	if (!limiter) {
+		const env = getDtekLimitsEnv();
+		limiter = new RateLimiter(region, {
+			ratePerSecond: env.DTEK_RATE_LIMIT_PER_SECOND,
+			burst: env.DTEK_RATE_LIMIT_BURST,
+			maxConcurrent: env.DTEK_MAX_CONCURRENT,
+			maxQueueSize: env.DTEK_MAX_QUEUE_SIZE,
+			maxQueueWaitMs: env.DTEK_MAX_QUEUE_WAIT_MS,
+		});
+		limiters.set(region, limiter);
+	}
+	return limiter;
+}
+
+/**
+ * Drop all region limiters (test helper)
+ */
+export function _resetRegionLimiters(): void {
+	limiters.clear();
+}
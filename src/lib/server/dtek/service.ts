@@ -5,19 +5,144 @@
  * Only getStatus() still makes real-time HTTP calls to DTEK for building status.
  *
  * Features:
- * - getCities/getStreets/getSchedules: Read-only from KV cache
- * - getStatus: HTTP to DTEK using CSRF/cookies from KV, with 2min local cache
+ * - getCities/getStreets/getSchedules/getGroups/getGroupSchedule: Read-only from KV cache
+ * - getStatus: HTTP to DTEK using CSRF/cookies from KV, with 2min local cache,
+ *   a shared Redis cache (fresh/stale windows, stale-while-revalidate)
+ *   and session refresh shortly before the stored cookies expire or when DTEK rejects them
+ * - Session pool: requests rotate among the region's pooled sessions; a session DTEK keeps
+ *   rejecting is quarantined for a while, and refreshes replace it in the pool
+ * - Per-region circuit breaker: while DTEK is failing, getStatus answers immediately
+ *   with last-known data or REGION_UNAVAILABLE instead of hitting the origin
+ * - getLastKnownStatus: last successful response per street (memory or Redis, up to 24h)
+ *   for callers that prefer stale data over an error
  * - Result-based error handling with rich context
  */
 
-import type { DtekStatusResponse, Result, DtekError, ProcessedSchedules } from '$lib/types';
-import { ok, formatErrorForLog } from '$lib/types';
-import { fetchBuildingStatuses, CookieJar } from './client';
+import type {
+	DtekStatusResponse,
+	FetchedStatus,
+	Result,
+	DtekError,
+	ProcessedSchedules,
+	DaySchedule,
+	CircuitHealth,
+	CacheStats,
+	SessionHealth,
+	ScheduleGroup,
+} from '$lib/types';
+import {
+	ok,
+	err,
+	formatErrorForLog,
+	sessionError,
+	regionUnavailableError,
+	upstreamRejectedError,
+	cityNotFoundError,
+	streetNotFoundError,
+	groupNotFoundError,
+} from '$lib/types';
+import { fetchBuildingStatuses, fetchTemplate, CookieJar } from './client';
+import { parseTemplate, buildCachedRegion } from './template';
 import { TtlCache } from './cache';
+import { CircuitBreaker, isUpstreamFailure } from './circuit-breaker';
 import { naturalSort, naturalSortKeys } from '$lib/utils/natural-sort';
+import { suggestNames } from '$lib/utils/suggest';
+import { getUpcomingDates, getDayOfWeekForDate } from '$lib/utils/kyiv-time';
+import { formatGroupName } from '$lib/utils/schedule';
 import type { RegionCode } from '$lib/constants/regions';
-import { getDtekRegionData } from '$lib/server/kv/client';
-import type { DtekCachedRegion } from '$lib/types/dtek-cache';
+import { randomUUID } from 'crypto';
+import {
+	getDtekRegionData,
+	setDtekRegionData,
+	getDtekStatus,
+	setDtekStatus,
+	getDtekSessionPool,
+	setDtekSessionPool,
+	getDtekSessionStats,
+	recordDtekSessionSuccess,
+	recordDtekSessionRejection,
+	quarantineDtekSession,
+} from '$lib/server/kv/client';
+import {
+	DTEK_STATUS_FRESH_MS,
+	DTEK_STATUS_STALE_MS,
+	DTEK_SESSION_POOL_SIZE,
+	DTEK_SESSION_QUARANTINE_AFTER,
+	DTEK_SESSION_QUARANTINE_MS,
+	sessionFromRegion,
+	type DtekCachedRegion,
+	type DtekCachedStatus,
+	type DtekSession,
+	type DtekSessionStats,
+} from '$lib/types/dtek-cache';
+
+/**
+ * One group's schedule with the freshness of the data it comes from
+ */
+export interface GroupSchedule {
+	group: ScheduleGroup;
+	/** Kyiv date ("YYYY-MM-DD") → schedule, starting today */
+	schedule: Record<string, DaySchedule>;
+	/** DTEK's "last updated" stamp from the template */
+	updateFact: string;
+	/** ISO timestamp of the extraction */
+	extractedAt: string;
+}
+
+/** Id of the session taken from region data when a region has no pool yet */
+const PRIMARY_SESSION_ID = 'primary';
+
+/**
+ * Session minted by a refresh, with the updateFact of the template it came from
+ */
+interface RefreshedSession {
+	session: DtekSession;
+	updateFact: string;
+}
+
+/**
+ * Pooled sessions with their shared health counters
+ */
+interface SessionPoolState {
+	sessions: DtekSession[];
+	stats: Record<string, DtekSessionStats>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Align a cached group schedule to the requested dates
+ * Past dates are dropped. Dates missing from the cache (it was extracted days ago)
+ * reuse a forecast day with the same day of week; fact days never repeat.
+ */
+function alignScheduleToDates(
+	cached: Record<string, DaySchedule>,
+	dates: string[]
+): Record<string, DaySchedule> {
+	const presetByDayOfWeek = new Map<string, DaySchedule>();
+	for (const [date, day] of Object.entries(cached)) {
+		if (day.source === 'preset') {
+			presetByDayOfWeek.set(getDayOfWeekForDate(date), day);
+		}
+	}
+
+	const aligned: Record<string, DaySchedule> = {};
+	for (const date of dates) {
+		const day = cached[date] ?? presetByDayOfWeek.get(getDayOfWeekForDate(date));
+		if (day) aligned[date] = day;
+	}
+	return aligned;
+}
+
+/**
+ * Check whether DTEK or its WAF refused a session's credentials
+ * Both are worked around by switching to another session or minting a fresh one.
+ */
+function isSessionRejection(error: DtekError): boolean {
+	return error.code === 'SESSION_ERROR' || error.code === 'BLOCKED';
+}
 
 // ============================================================================
 // DtekService
@@ -29,19 +154,65 @@ import type { DtekCachedRegion } from '$lib/types/dtek-cache';
  */
 export class DtekService {
 	private readonly regionCode: RegionCode;
-	private readonly statusCache: TtlCache<DtekStatusResponse>;
-	private readonly STATUS_CACHE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+	private readonly statusCache: TtlCache<FetchedStatus>;
+	private readonly STATUS_CACHE_TTL_MS = DTEK_STATUS_FRESH_MS;
+
+	// Last successful response per street, served when DTEK can't be queried
+	private readonly lastKnownStatus: TtlCache<FetchedStatus>;
+	private readonly LAST_KNOWN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+	// Bound memory on long-lived instances: users browse many streets once
+	private readonly STATUS_CACHE_MAX_ENTRIES = 1000;
+	private readonly LAST_KNOWN_MAX_ENTRIES = 5000;
+
+	private readonly breaker = new CircuitBreaker({
+		failureThreshold: 5,
+		openDurationMs: 30 * 1000,
+	});
+
+	// Refresh sessions this long before their cookies expire
+	private readonly SESSION_REFRESH_MARGIN_MS = 60 * 1000;
+
+	// Pooled sessions tried per request before minting a new one
+	private readonly MAX_SESSION_ATTEMPTS = 2;
 
-	// Cache processed schedules in memory (no need to re-process on every call)
-	private schedulesCache: ProcessedSchedules | null = null;
-	private schedulesCacheExtractedAt: string | null = null;
+	// Round-robin position in the session pool
+	private sessionRotation = 0;
+
+	// In-flight session refresh shared by concurrent callers
+	private sessionRefresh: Promise<Result<RefreshedSession, DtekError>> | null = null;
+
+	// In-flight status requests by city:street, shared by concurrent cache misses
+	private readonly statusRequests = new Map<string, Promise<Result<FetchedStatus, DtekError>>>();
+
+	// Streets being revalidated in the background after a stale Redis hit
+	private readonly revalidations = new Set<string>();
 
 	constructor(region: RegionCode) {
 		this.regionCode = region;
-		this.statusCache = new TtlCache<DtekStatusResponse>(this.STATUS_CACHE_TTL_MS);
+		this.statusCache = new TtlCache<FetchedStatus>(this.STATUS_CACHE_TTL_MS, {
+			maxEntries: this.STATUS_CACHE_MAX_ENTRIES,
+		});
+		this.lastKnownStatus = new TtlCache<FetchedStatus>(this.LAST_KNOWN_TTL_MS, {
+			maxEntries: this.LAST_KNOWN_MAX_ENTRIES,
+		});
 		console.log(`[DtekService] Created service instance for region: ${region}`);
 	}
 
+	/**
+	 * Circuit breaker state for live status requests
+	 */
+	getCircuitHealth(): CircuitHealth {
+		return this.breaker.snapshot();
+	}
+
+	/**
+	 * Counters of the in-memory status caches
+	 */
+	getCacheStats(): { status: CacheStats; lastKnown: CacheStats } {
+		return { status: this.statusCache.stats(), lastKnown: this.lastKnownStatus.stats() };
+	}
+
 	/**
 	 * Get region data from KV cache
 	 */
@@ -56,6 +227,248 @@ export class DtekService {
 		return result;
 	}
 
+	/**
+	 * Mint a fresh DTEK session from the template page and persist it to KV
+	 * Concurrent callers share the same refresh instead of each hitting DTEK.
+	 *
+	 * @param regionData - Current region data
+	 * @param replaceId - Pooled session the fresh one takes the place of
+	 * @returns Result with the fresh session, or SessionError
+	 */
+	private refreshSession(
+		regionData: DtekCachedRegion,
+		replaceId: string
+	): Promise<Result<RefreshedSession, DtekError>> {
+		if (!this.sessionRefresh) {
+			this.sessionRefresh = this.doRefreshSession(regionData, replaceId).finally(() => {
+				this.sessionRefresh = null;
+			});
+		}
+		return this.sessionRefresh;
+	}
+
+	private async doRefreshSession(
+		regionData: DtekCachedRegion,
+		replaceId: string
+	): Promise<Result<RefreshedSession, DtekError>> {
+		console.log(`[DtekService:${this.regionCode}] Refreshing DTEK session...`);
+
+		const templateResult = await fetchTemplate(this.regionCode);
+		if (!templateResult.ok) {
+			return err(
+				sessionError('refresh_failed', 'Failed to load DTEK template for session refresh', {
+					httpStatus: templateResult.error.httpStatus,
+					cause: templateResult.error,
+				})
+			);
+		}
+
+		// Rebuild the whole region entry: the template carries fresh streets and schedules too
+		const { html, cookies } = templateResult.value;
+		const parseResult = parseTemplate(html, this.regionCode);
+		if (!parseResult.ok) {
+			return err(
+				sessionError('refresh_failed', 'Failed to parse DTEK template for session refresh', {
+					cause: parseResult.error,
+				})
+			);
+		}
+
+		const refreshed = buildCachedRegion(
+			this.regionCode,
+			regionData.baseUrl,
+			parseResult.value,
+			cookies.toStored()
+		);
+
+		// Share refreshed credentials with every instance; a failed write is not fatal
+		const saveResult = await setDtekRegionData(this.regionCode, refreshed);
+		if (!saveResult.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to persist refreshed session:`,
+				formatErrorForLog(saveResult.error)
+			);
+		}
+
+		const session = sessionFromRegion(refreshed, randomUUID().slice(0, 8));
+		await this.replacePooledSession(replaceId, session);
+
+		console.log(`[DtekService:${this.regionCode}] Session refreshed (${session.id})`);
+		return ok({ session, updateFact: refreshed.updateFact });
+	}
+
+	/**
+	 * Swap a session in the shared pool for a freshly minted one
+	 * Re-reads the pool first, so sessions other instances added meanwhile are kept.
+	 */
+	private async replacePooledSession(replaceId: string, session: DtekSession): Promise<void> {
+		const poolResult = await getDtekSessionPool(this.regionCode);
+		if (!poolResult.ok) return;
+
+		const current = poolResult.value?.sessions ?? [];
+		const sessions = [session, ...current.filter((s) => s.id !== replaceId)].slice(
+			0,
+			DTEK_SESSION_POOL_SIZE
+		);
+		const removedIds = current.filter((s) => !sessions.includes(s)).map((s) => s.id);
+		if (!removedIds.includes(replaceId)) removedIds.push(replaceId);
+
+		const saveResult = await setDtekSessionPool(
+			this.regionCode,
+			{ sessions, updatedAt: new Date().toISOString() },
+			removedIds
+		);
+		if (!saveResult.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to update session pool:`,
+				formatErrorForLog(saveResult.error)
+			);
+		}
+	}
+
+	/**
+	 * Get the region's pooled sessions and their shared health counters
+	 * Without a pool (not written yet, or KV trouble) the credentials in region data are
+	 * used as a single session.
+	 *
+	 * @param regionData - Region data to fall back to, or null to return an empty pool
+	 */
+	private async getSessionPool(regionData: DtekCachedRegion | null): Promise<SessionPoolState> {
+		const [poolResult, statsResult] = await Promise.all([
+			getDtekSessionPool(this.regionCode),
+			getDtekSessionStats(this.regionCode),
+		]);
+
+		const pooled = poolResult.ok ? (poolResult.value?.sessions ?? []) : [];
+		const fallback = regionData ? [sessionFromRegion(regionData, PRIMARY_SESSION_ID)] : [];
+
+		return {
+			sessions: pooled.length > 0 ? pooled : fallback,
+			stats: statsResult.ok ? statsResult.value : {},
+		};
+	}
+
+	/**
+	 * Check whether a session is out of rotation after repeated rejections
+	 */
+	private isQuarantined(stats: DtekSessionStats | undefined): boolean {
+		return stats?.quarantinedUntil != null && stats.quarantinedUntil > Date.now();
+	}
+
+	/**
+	 * Check whether a session expires within the refresh margin
+	 * Sessions without a known expiry (legacy cookie strings) are only refreshed when rejected.
+	 */
+	private isSessionExpiring(session: DtekSession): boolean {
+		if (!session.sessionExpiresAt) return false;
+		const expiresAt = new Date(session.sessionExpiresAt).getTime();
+		return expiresAt - Date.now() < this.SESSION_REFRESH_MARGIN_MS;
+	}
+
+	/**
+	 * Order sessions for a request, starting one further into the list on every call
+	 */
+	private rotateSessions(sessions: DtekSession[]): DtekSession[] {
+		if (sessions.length === 0) return sessions;
+		const start = this.sessionRotation++ % sessions.length;
+		return [...sessions.slice(start), ...sessions.slice(0, start)];
+	}
+
+	/**
+	 * Query DTEK for building statuses with a session's credentials
+	 * Acceptance and rejection are counted in the session's shared health counters.
+	 */
+	private async fetchWithSession(
+		session: DtekSession,
+		updateFact: string,
+		city: string,
+		street: string
+	) {
+		const result = await fetchBuildingStatuses({
+			region: this.regionCode,
+			city,
+			street,
+			updateFact,
+			csrf: session.csrf,
+			cookies: CookieJar.fromStored(session.cookies),
+		});
+
+		if (result.ok) {
+			await this.recordSessionSuccess(session.id);
+		} else if (isSessionRejection(result.error)) {
+			console.warn(
+				`[DtekService:${this.regionCode}] Session ${session.id} rejected:`,
+				formatErrorForLog(result.error)
+			);
+			await this.recordSessionRejection(session.id);
+		}
+
+		return result;
+	}
+
+	private async recordSessionSuccess(id: string): Promise<void> {
+		const result = await recordDtekSessionSuccess(this.regionCode, id);
+		if (!result.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to record session success:`,
+				formatErrorForLog(result.error)
+			);
+		}
+	}
+
+	/**
+	 * Count a rejection and quarantine the session once DTEK keeps rejecting it
+	 */
+	private async recordSessionRejection(id: string): Promise<void> {
+		const result = await recordDtekSessionRejection(this.regionCode, id);
+		if (!result.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to record session rejection:`,
+				formatErrorForLog(result.error)
+			);
+			return;
+		}
+
+		if (result.value < DTEK_SESSION_QUARANTINE_AFTER) return;
+
+		console.warn(
+			`[DtekService:${this.regionCode}] Quarantining session ${id} after ${result.value} rejections in a row`
+		);
+		const quarantineResult = await quarantineDtekSession(
+			this.regionCode,
+			id,
+			Date.now() + DTEK_SESSION_QUARANTINE_MS
+		);
+		if (!quarantineResult.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to quarantine session:`,
+				formatErrorForLog(quarantineResult.error)
+			);
+		}
+	}
+
+	/**
+	 * Pooled sessions with their shared health counters
+	 */
+	async getSessionHealth(): Promise<SessionHealth[]> {
+		const { sessions, stats } = await this.getSessionPool(null);
+
+		return sessions.map((session) => {
+			const counters = stats[session.id];
+			const quarantined = this.isQuarantined(counters);
+			return {
+				id: session.id,
+				createdAt: session.createdAt,
+				expiresAt: session.sessionExpiresAt ?? null,
+				successes: counters?.successes ?? 0,
+				rejections: counters?.rejections ?? 0,
+				consecutiveRejections: counters?.consecutiveRejections ?? 0,
+				quarantinedUntil: quarantined ? counters!.quarantinedUntil : null,
+				healthy: !quarantined && !this.isSessionExpiring(session),
+			};
+		});
+	}
+
 	/**
 	 * Get list of all cities
 	 * @returns Result with array of city names (Ukrainian), naturally sorted
@@ -70,57 +483,275 @@ export class DtekService {
 	/**
 	 * Get list of streets for a specific city
 	 * @param city - City name (Ukrainian, e.g., "м. Одеса")
-	 * @returns Result with array of street names for the city (naturally sorted)
+	 * @returns Result with array of street names for the city (naturally sorted),
+	 *          or CITY_NOT_FOUND with suggestions for a city not in the directory
 	 */
 	async getStreets(city: string): Promise<Result<string[], DtekError>> {
 		const regionResult = await this.getRegionData();
 		if (!regionResult.ok) return regionResult;
 
-		const streets = regionResult.value.streetsByCity[city] || [];
-		return ok(naturalSort(streets));
+		const streetsResult = this.findStreets(regionResult.value, city);
+		if (!streetsResult.ok) return streetsResult;
+
+		return ok(naturalSort(streetsResult.value));
+	}
+
+	/**
+	 * Check a city and street against the cached directory
+	 * Keeps arbitrary input from being sent to DTEK with our sessions.
+	 *
+	 * @param city - City name (Ukrainian, e.g., "м. Одеса")
+	 * @param street - Street name (Ukrainian, e.g., "вул. Педагогічна")
+	 * @returns Result with void for a known address, CITY_NOT_FOUND/STREET_NOT_FOUND with
+	 *          suggestions, or KvError when the directory can't be read
+	 */
+	async validateAddress(city: string, street: string): Promise<Result<void, DtekError>> {
+		const regionResult = await this.getRegionData();
+		if (!regionResult.ok) return regionResult;
+
+		const streetsResult = this.findStreets(regionResult.value, city);
+		if (!streetsResult.ok) return streetsResult;
+
+		const streets = streetsResult.value;
+		if (!streets.includes(street)) {
+			return err(
+				streetNotFoundError(city, street, suggestNames(street, streets), {
+					region: this.regionCode,
+				})
+			);
+		}
+
+		return ok(undefined);
+	}
+
+	/**
+	 * Look up a city's streets in region data
+	 */
+	private findStreets(regionData: DtekCachedRegion, city: string): Result<string[], DtekError> {
+		const streets = regionData.streetsByCity[city];
+		if (!streets) {
+			return err(
+				cityNotFoundError(city, suggestNames(city, regionData.cities), {
+					region: this.regionCode,
+				})
+			);
+		}
+		return ok(streets);
 	}
 
 	/**
 	 * Get building status for a city + street
-	 * Uses local cache when available (10 minute TTL)
-	 * Uses CSRF/cookies from KV for authentication
+	 * Uses local cache when available (2 minute TTL), then the shared Redis cache:
+	 * fresh entries are served as hits, stale ones are served immediately while being
+	 * revalidated in the background, and only true misses wait for DTEK.
+	 * Concurrent cache misses for the same street share one outbound request and its result.
+	 * Rotates among the region's pooled sessions from KV; if DTEK rejects them, tries
+	 * another pooled session, then mints a fresh one and retries before giving up with
+	 * SessionError.
+	 * While the circuit is open, answers with last-known data (stale) or REGION_UNAVAILABLE.
 	 *
 	 * @param city - City name (Ukrainian, e.g., "м. Одеса")
 	 * @param street - Street name (Ukrainian, e.g., "вул. Педагогічна")
-	 * @returns Result with DTEK status response with building data
+	 * @returns Result with DTEK status response with building data and its fetch time
 	 */
-	async getStatus(city: string, street: string): Promise<Result<DtekStatusResponse, DtekError>> {
+	async getStatus(city: string, street: string): Promise<Result<FetchedStatus, DtekError>> {
 		const cacheKey = `${city}:${street}`;
 
 		// Check cache first
 		const cached = this.statusCache.get(cacheKey);
 		if (cached) {
 			console.log(`[DtekService:${this.regionCode}] Cache hit for ${cacheKey}`);
-			return ok(cached);
+			return ok({ ...cached, cacheStatus: 'hit' });
+		}
+
+		// Join a request already on its way to DTEK
+		const inFlight = this.statusRequests.get(cacheKey);
+		if (inFlight) {
+			console.log(`[DtekService:${this.regionCode}] Joining in-flight request for ${cacheKey}`);
+			return inFlight;
+		}
+
+		const request = this.loadStatus(city, street, cacheKey).finally(() => {
+			this.statusRequests.delete(cacheKey);
+		});
+		this.statusRequests.set(cacheKey, request);
+		return request;
+	}
+
+	/**
+	 * Serve building status from the shared Redis cache, falling back to DTEK
+	 */
+	private async loadStatus(
+		city: string,
+		street: string,
+		cacheKey: string
+	): Promise<Result<FetchedStatus, DtekError>> {
+		const shared = await getDtekStatus(this.regionCode, city, street);
+		if (!shared.ok) {
+			// Redis trouble is not a reason to fail the request
+			console.error(
+				`[DtekService:${this.regionCode}] Shared status read failed:`,
+				formatErrorForLog(shared.error)
+			);
+		} else if (shared.value) {
+			const { response, fetchedAt } = shared.value;
+			const ageMs = Date.now() - fetchedAt;
+
+			if (ageMs < DTEK_STATUS_FRESH_MS) {
+				console.log(`[DtekService:${this.regionCode}] Shared cache hit for ${cacheKey}`);
+				const fetched: FetchedStatus = { response, fetchedAt, stale: false, cacheStatus: 'hit' };
+				this.statusCache.set(cacheKey, fetched, DTEK_STATUS_FRESH_MS - ageMs);
+				return ok(fetched);
+			}
+
+			if (ageMs < DTEK_STATUS_STALE_MS) {
+				console.log(`[DtekService:${this.regionCode}] Shared cache stale for ${cacheKey}`);
+				this.revalidate(city, street, cacheKey);
+				return ok({ response, fetchedAt, stale: false, cacheStatus: 'stale' });
+			}
 		}
 
 		console.log(
 			`[DtekService:${this.regionCode}] Cache miss for ${cacheKey}, fetching from DTEK...`
 		);
+		return this.fetchStatus(city, street, cacheKey);
+	}
+
+	/**
+	 * Refresh a stale street in the background, at most once at a time per street
+	 * On serverless platforms the refresh may be cut short once the response is sent;
+	 * the next stale hit simply tries again.
+	 */
+	private revalidate(city: string, street: string, cacheKey: string): void {
+		if (this.revalidations.has(cacheKey)) return;
+
+		this.revalidations.add(cacheKey);
+		void this.fetchStatus(city, street, cacheKey).finally(() => {
+			this.revalidations.delete(cacheKey);
+		});
+	}
+
+	/**
+	 * Fetch building status through the circuit breaker
+	 */
+	private async fetchStatus(
+		city: string,
+		street: string,
+		cacheKey: string
+	): Promise<Result<FetchedStatus, DtekError>> {
+		if (!this.breaker.tryAcquire()) {
+			return this.shortCircuit(city, street);
+		}
+
+		const result = await this.requestStatus(city, street, cacheKey);
+
+		if (result.ok) {
+			if (this.breaker.state !== 'closed') {
+				console.log(`[DtekService:${this.regionCode}] Circuit closed, DTEK recovered`);
+			}
+			this.breaker.recordSuccess();
+		} else if (isUpstreamFailure(result.error)) {
+			if (this.breaker.recordFailure()) {
+				console.warn(`[DtekService:${this.regionCode}] Circuit opened after upstream failures`);
+			}
+		} else {
+			this.breaker.recordIgnored();
+		}
+
+		return result;
+	}
+
+	/**
+	 * Answer without calling DTEK while the circuit is open
+	 */
+	private async shortCircuit(
+		city: string,
+		street: string
+	): Promise<Result<FetchedStatus, DtekError>> {
+		const lastKnown = await this.getLastKnownStatus(city, street);
+		if (lastKnown) {
+			console.log(
+				`[DtekService:${this.regionCode}] Circuit open, serving last-known ${city}:${street}`
+			);
+			return ok(lastKnown);
+		}
+
+		return err(
+			regionUnavailableError('DTEK requests short-circuited while the region is failing', {
+				region: this.regionCode,
+			})
+		);
+	}
 
+	/**
+	 * Fetch building status from DTEK and cache a successful response
+	 */
+	private async requestStatus(
+		city: string,
+		street: string,
+		cacheKey: string
+	): Promise<Result<FetchedStatus, DtekError>> {
 		// Get credentials from KV
 		const regionResult = await this.getRegionData();
 		if (!regionResult.ok) return regionResult;
-
 		const regionData = regionResult.value;
 
-		// Build CookieJar from stored cookie string
-		const cookies = CookieJar.fromString(regionData.cookies);
+		const { sessions, stats } = await this.getSessionPool(regionData);
+		const inRotation = sessions.filter((s) => !this.isQuarantined(stats[s.id]));
+		let candidates = this.rotateSessions(inRotation.filter((s) => !this.isSessionExpiring(s)));
+		let updateFact = regionData.updateFact;
 
-		// Fetch building statuses using stored credentials
-		const fetchResult = await fetchBuildingStatuses({
-			region: this.regionCode,
-			city,
-			street,
-			updateFact: regionData.updateFact,
-			csrf: regionData.csrf,
-			cookies,
-		});
+		// No session left that isn't quarantined or about to expire: mint a fresh one first
+		if (candidates.length === 0) {
+			const replaced = inRotation[0] ?? sessions[0];
+			console.log(
+				`[DtekService:${this.regionCode}] No usable session (${replaced.id} expires at ${replaced.sessionExpiresAt}), refreshing early`
+			);
+			const refreshResult = await this.refreshSession(regionData, replaced.id);
+			if (refreshResult.ok) {
+				candidates = [refreshResult.value.session];
+				updateFact = refreshResult.value.updateFact;
+			} else {
+				console.warn(
+					`[DtekService:${this.regionCode}] Early session refresh failed, using stored sessions:`,
+					formatErrorForLog(refreshResult.error)
+				);
+				candidates = this.rotateSessions(inRotation.length > 0 ? inRotation : sessions);
+			}
+		}
+
+		// A rejected session may be the only flagged one: try another before minting
+		let fetchResult = await this.fetchWithSession(candidates[0], updateFact, city, street);
+		for (const session of candidates.slice(1, this.MAX_SESSION_ATTEMPTS)) {
+			if (fetchResult.ok || !isSessionRejection(fetchResult.error)) break;
+			fetchResult = await this.fetchWithSession(session, updateFact, city, street);
+		}
+
+		// Every session tried was rejected: replace the first one with a fresh session and retry once
+		if (!fetchResult.ok && isSessionRejection(fetchResult.error)) {
+			const refreshResult = await this.refreshSession(regionData, candidates[0].id);
+			if (!refreshResult.ok) {
+				console.error(
+					`[DtekService:${this.regionCode}] Session refresh failed:`,
+					formatErrorForLog(refreshResult.error)
+				);
+				return refreshResult;
+			}
+
+			const { session } = refreshResult.value;
+			updateFact = refreshResult.value.updateFact;
+			fetchResult = await this.fetchWithSession(session, updateFact, city, street);
+
+			// A fresh session that is blocked too is reported as BLOCKED below
+			if (!fetchResult.ok && fetchResult.error.code === 'SESSION_ERROR') {
+				return err(
+					sessionError('refresh_failed', 'DTEK rejected refreshed session', {
+						httpStatus: fetchResult.error.httpStatus,
+						cause: fetchResult.error,
+					})
+				);
+			}
+		}
 
 		if (!fetchResult.ok) {
 			console.error(
@@ -130,29 +761,89 @@ export class DtekService {
 			return fetchResult;
 		}
 
+		// No buildings for a street DTEK itself lists is a glitch, not an empty street: don't cache it
+		const knownStreet = regionData.streetsByCity[city]?.includes(street) ?? false;
+		if (knownStreet && Object.keys(fetchResult.value.data).length === 0) {
+			const error = upstreamRejectedError(
+				'empty_data',
+				`DTEK API returned no buildings for ${city} / ${street}`,
+				{ region: this.regionCode, updateFact }
+			);
+			console.error(`[DtekService:${this.regionCode}]`, formatErrorForLog(error));
+			return err(error);
+		}
+
 		// Sort building keys naturally and cache the result
 		const sortedResponse: DtekStatusResponse = {
 			...fetchResult.value,
 			data: naturalSortKeys(fetchResult.value.data),
 		};
-		this.statusCache.set(cacheKey, sortedResponse);
+		const fetched: FetchedStatus = {
+			response: sortedResponse,
+			fetchedAt: Date.now(),
+			stale: false,
+			cacheStatus: 'miss',
+		};
+		this.statusCache.set(cacheKey, fetched);
+		this.lastKnownStatus.set(cacheKey, fetched);
+
+		// Share with other instances; a failed write only costs them a DTEK call
+		const shared: DtekCachedStatus = { response: sortedResponse, fetchedAt: fetched.fetchedAt };
+		const saveResult = await setDtekStatus(this.regionCode, city, street, shared);
+		if (!saveResult.ok) {
+			console.error(
+				`[DtekService:${this.regionCode}] Failed to share status for ${cacheKey}:`,
+				formatErrorForLog(saveResult.error)
+			);
+		}
 
 		console.log(
 			`[DtekService:${this.regionCode}] Successfully fetched status for ${city} / ${street}. Buildings: ${Object.keys(sortedResponse.data).length}`
 		);
 
-		return ok(sortedResponse);
+		return ok(fetched);
+	}
+
+	/**
+	 * Get the last successful building status for a street, however old
+	 * Looks at this instance's memory and at the shared Redis entry (kept for 24h)
+	 * and returns the newer one, marked as stale.
+	 *
+	 * @param city - City name (Ukrainian, e.g., "м. Одеса")
+	 * @param street - Street name (Ukrainian, e.g., "вул. Педагогічна")
+	 * @returns Last-known status, or null if this street was never fetched successfully
+	 */
+	async getLastKnownStatus(city: string, street: string): Promise<FetchedStatus | null> {
+		const local = this.lastKnownStatus.get(`${city}:${street}`);
+
+		const sharedResult = await getDtekStatus(this.regionCode, city, street);
+		const shared = sharedResult.ok ? sharedResult.value : null;
+
+		const newest = shared && (!local || shared.fetchedAt > local.fetchedAt) ? shared : local;
+		if (!newest) return null;
+
+		return {
+			response: newest.response,
+			fetchedAt: newest.fetchedAt,
+			stale: true,
+			cacheStatus: 'stale',
+		};
 	}
 
 	/**
-	 * Get schedules for specific groups
-	 * Schedules are pre-compressed by the refresh script, this just passes through.
+	 * Get weekly schedules for specific groups
+	 * Schedules are pre-compressed by the refresh script and realigned to the request date,
+	 * so a cache extracted yesterday never serves yesterday's schedule as today's.
 	 *
 	 * @param groupIds - Array of group IDs to retrieve schedules for
+	 * @param now - Request instant that defines "today" (Kyiv time)
 	 * @returns Result with filtered schedules for the specified groups
-	 *          Days are keyed by day-of-week ("1"=Monday, "7"=Sunday)
+	 *          Days are keyed by Kyiv date ("YYYY-MM-DD"), starting from today
 	 */
-	async getSchedules(groupIds: string[]): Promise<Result<ProcessedSchedules, DtekError>> {
+	async getSchedules(
+		groupIds: string[],
+		now: Date = new Date()
+	): Promise<Result<ProcessedSchedules, DtekError>> {
 		const regionResult = await this.getRegionData();
 		if (!regionResult.ok) return regionResult;
 
@@ -164,32 +855,73 @@ export class DtekService {
 			return ok({});
 		}
 
-		// Transform pre-compressed data to ProcessedSchedules format (cache on extractedAt change)
-		if (!this.schedulesCache || this.schedulesCacheExtractedAt !== regionData.extractedAt) {
-			const processed: ProcessedSchedules = {};
-
-			for (const [groupId, groupData] of Object.entries(scheduleData.groups)) {
-				// Data is already compressed (ScheduleRange[]), just map to day keys
-				processed[groupId] = {
-					[scheduleData.todayDayOfWeek]: groupData.today,
-					[scheduleData.tomorrowDayOfWeek]: groupData.tomorrow,
-				};
-			}
-
-			this.schedulesCache = processed;
-			this.schedulesCacheExtractedAt = regionData.extractedAt;
-		}
-
-		// Filter to requested groups
+		// Data is already compressed, just filter to requested groups and drop past days
+		const dates = getUpcomingDates(now);
 		const filtered: ProcessedSchedules = {};
 		for (const id of groupIds) {
-			if (this.schedulesCache[id]) {
-				filtered[id] = this.schedulesCache[id];
+			if (scheduleData.groups[id]) {
+				filtered[id] = alignScheduleToDates(scheduleData.groups[id], dates);
 			}
 		}
 
 		return ok(filtered);
 	}
+
+	/**
+	 * Get all schedule groups of the region
+	 * @returns Result with groups in natural order, named by DTEK (or "Черга N.N" when
+	 *          the cached data has no names)
+	 */
+	async getGroups(): Promise<Result<ScheduleGroup[], DtekError>> {
+		const regionResult = await this.getRegionData();
+		if (!regionResult.ok) return regionResult;
+
+		const scheduleData = regionResult.value.scheduleData;
+		if (!scheduleData) return ok([]);
+
+		return ok(
+			naturalSort(Object.keys(scheduleData.groups)).map((id) => ({
+				id,
+				name: scheduleData.names?.[id] ?? formatGroupName(id),
+			}))
+		);
+	}
+
+	/**
+	 * Get the weekly schedule of one group, realigned to the request date
+	 *
+	 * @param groupId - Group ID, e.g., "GPV1.2"
+	 * @param now - Request instant that defines "today" (Kyiv time)
+	 * @returns Result with the schedule and data freshness,
+	 *          or GROUP_NOT_FOUND with suggestions for a group the region doesn't have
+	 */
+	async getGroupSchedule(
+		groupId: string,
+		now: Date = new Date()
+	): Promise<Result<GroupSchedule, DtekError>> {
+		const regionResult = await this.getRegionData();
+		if (!regionResult.ok) return regionResult;
+
+		const regionData = regionResult.value;
+		const groups = regionData.scheduleData?.groups ?? {};
+		if (!groups[groupId]) {
+			return err(
+				groupNotFoundError(groupId, suggestNames(groupId, Object.keys(groups)), {
+					region: this.regionCode,
+				})
+			);
+		}
+
+		return ok({
+			group: {
+				id: groupId,
+				name: regionData.scheduleData?.names?.[groupId] ?? formatGroupName(groupId),
+			},
+			schedule: alignScheduleToDates(groups[groupId], getUpcomingDates(now)),
+			updateFact: regionData.updateFact,
+			extractedAt: regionData.extractedAt,
+		});
+	}
 }
 
 /**
@@ -0,0 +1,398 @@
+/**
+ * DTEK template page parsing
+ *
+ * Turns the raw HTML of the /ua/shutdowns page into validated template data.
+ * The page embeds everything we need inline:
+ * - CSRF token in `<meta name="csrf-token">`
+ * - DisconSchedule.streets: streets by city (object) or a flat array (single-city regions)
+ * - DisconSchedule.fact: updateFact timestamp and real-time schedules by day timestamp
+ *   (today, plus tomorrow once DTEK publishes it)
+ * - DisconSchedule.preset: weekly forecast by group and day of week, and group display names
+ *
+ * Shared by the refresh script and the server, so it uses relative imports only.
+ */
+
+import { z } from 'zod';
+import type { Result } from '../../types/result.js';
+import { ok, err } from '../../types/result.js';
+import type { ParseError } from '../../types/errors.js';
+import { parseError } from '../../types/errors.js';
+import type {
+	DtekTemplateData,
+	ScheduleStatus,
+	ScheduleRange,
+	DaySchedule,
+} from '../../types/dtek.js';
+import {
+	DTEK_REGION_CITY_NAMES,
+	getSessionExpiresAt,
+	type DtekRegion,
+	type DtekCachedRegion,
+	type StoredCookie,
+	type ScheduleData,
+	type HourlySchedule,
+} from '../../types/dtek-cache.js';
+import { getKyivDateString, getUpcomingDates, getDayOfWeekForDate } from '../../utils/kyiv-time.js';
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Schema for the inline DisconSchedule.* objects
+ */
+export const disconScheduleSchema = z.object({
+	streets: z
+		.union([z.record(z.string(), z.array(z.string())), z.array(z.string())])
+		.refine((v) => (Array.isArray(v) ? v.length > 0 : Object.keys(v).length > 0), {
+			message: 'streets must not be empty',
+		}),
+	fact: z.object({
+		update: z.string().min(1),
+		// data can be empty array [] or object { timestamp: { groupId: { hour: status } } }
+		data: z.union([z.array(z.unknown()), z.record(z.string(), z.unknown())]).optional(),
+		// today is the timestamp key to use for current day in data
+		today: z.number().optional(),
+	}),
+	preset: z.unknown(),
+});
+
+// =============================================================================
+// Raw Extraction
+// =============================================================================
+
+/**
+ * Extract balanced JSON from text starting after marker
+ * @returns Parsed value or null if marker is missing or JSON is malformed
+ */
+export function extractJson(text: string, marker: string, open: string, close: string): unknown {
+	const start = text.indexOf(marker);
+	if (start === -1) return null;
+	const eq = text.indexOf('=', start);
+	if (eq === -1) return null;
+
+	// Find the open bracket - must be immediately after = (with optional whitespace)
+	let jsonStart = -1;
+	for (let i = eq + 1; i < text.length; i++) {
+		const ch = text[i];
+		if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') continue;
+		if (ch === open) {
+			jsonStart = i;
+			break;
+		}
+		// Found a non-whitespace char that isn't the expected opener - wrong format
+		return null;
+	}
+	if (jsonStart === -1) return null;
+
+	let depth = 0;
+	for (let i = jsonStart; i < text.length; i++) {
+		if (text[i] === open) depth++;
+		else if (text[i] === close && --depth === 0) {
+			try {
+				return JSON.parse(text.slice(jsonStart, i + 1));
+			} catch {
+				return null;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Parse raw (unvalidated) DisconSchedule data from page HTML
+ */
+export function parseDisconSchedule(html: string) {
+	return {
+		// Try object format first (multi-city), then array (single-city like KEM)
+		streets:
+			extractJson(html, 'DisconSchedule.streets', '{', '}') ??
+			extractJson(html, 'DisconSchedule.streets', '[', ']'),
+		fact: extractJson(html, 'DisconSchedule.fact', '{', '}'),
+		preset: extractJson(html, 'DisconSchedule.preset', '{', '}'),
+	};
+}
+
+/**
+ * Extract CSRF token from `<meta name="csrf-token" content="...">`
+ * @returns Token or null if the meta tag is missing/empty
+ */
+export function extractCsrf(html: string): string | null {
+	const tag = html.match(/<meta\s[^>]*name=["']csrf-token["'][^>]*>/i)?.[0];
+	const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+	return content || null;
+}
+
+// =============================================================================
+// Schedule Compression
+// =============================================================================
+
+type NormalizedStatus = 'yes' | 'maybe' | 'no';
+
+function normalizeStatus(status: ScheduleStatus): NormalizedStatus {
+	if (status === 'yes') return 'yes';
+	if (status === 'maybe' || status === 'mfirst' || status === 'msecond') return 'maybe';
+	return 'no';
+}
+
+function addRange(
+	ranges: ScheduleRange[],
+	from: number,
+	to: number,
+	status: NormalizedStatus
+): void {
+	const last = ranges[ranges.length - 1];
+	if (last && last.to === from && last.status === status) {
+		last.to = to;
+	} else {
+		ranges.push({ from, to, status });
+	}
+}
+
+/**
+ * Compress hourly schedule to ranges with normalized statuses
+ * Hour key mapping: "1" → 00:00-01:00, "10" → 09:00-10:00
+ */
+export function compressDaySchedule(dayData: HourlySchedule): ScheduleRange[] {
+	const ranges: ScheduleRange[] = [];
+
+	for (let hourKey = 1; hourKey <= 24; hourKey++) {
+		const rawStatus = dayData[String(hourKey)];
+		if (!rawStatus) continue;
+
+		const hourStart = hourKey - 1;
+
+		if (rawStatus === 'mfirst') {
+			addRange(ranges, hourStart, hourStart + 0.5, 'maybe');
+			addRange(ranges, hourStart + 0.5, hourStart + 1, 'yes');
+		} else if (rawStatus === 'msecond') {
+			addRange(ranges, hourStart, hourStart + 0.5, 'yes');
+			addRange(ranges, hourStart + 0.5, hourStart + 1, 'maybe');
+		} else if (rawStatus === 'first') {
+			addRange(ranges, hourStart, hourStart + 0.5, 'no');
+			addRange(ranges, hourStart + 0.5, hourStart + 1, 'yes');
+		} else if (rawStatus === 'second') {
+			addRange(ranges, hourStart, hourStart + 0.5, 'yes');
+			addRange(ranges, hourStart + 0.5, hourStart + 1, 'no');
+		} else {
+			addRange(ranges, hourStart, hourStart + 1, normalizeStatus(rawStatus));
+		}
+	}
+
+	return ranges;
+}
+
+// =============================================================================
+// Schedule Resolution
+// =============================================================================
+
+/** Number of days resolved into the cache, starting from today */
+const WEEK_LENGTH = 7;
+
+type GroupsHourly = Record<string, Record<string, ScheduleStatus>>;
+
+/**
+ * Map fact.data days onto Kyiv calendar dates.
+ * fact.data is keyed by the unix timestamp of a Kyiv midnight.
+ */
+function mapFactToDates(factData: unknown): Map<string, GroupsHourly> {
+	const byDate = new Map<string, GroupsHourly>();
+
+	// fact.data can be [] (empty) or { timestamp: { groupId: { hour: status } } }
+	if (!factData || typeof factData !== 'object' || Array.isArray(factData)) {
+		return byDate;
+	}
+
+	for (const [timestamp, groups] of Object.entries(factData as Record<string, GroupsHourly>)) {
+		const seconds = Number(timestamp);
+		if (!Number.isFinite(seconds) || !groups || typeof groups !== 'object') continue;
+		byDate.set(getKyivDateString(new Date(seconds * 1000)), groups);
+	}
+
+	return byDate;
+}
+
+/**
+ * Resolve schedules from fact.data (real-time) and preset.data (static).
+ * Resolves the week starting from today's Kyiv date. Every date comes from
+ * preset.data (by day of week), except dates covered by fact.data
+ * (today, and tomorrow once DTEK publishes it in the evening).
+ * Returns pre-compressed ranges ready for storage.
+ *
+ * @param now - Reference instant that defines "today" (Kyiv time)
+ */
+export function resolveSchedules(
+	presetData: unknown,
+	factData: unknown,
+	now: Date = new Date()
+): ScheduleData | null {
+	// Parse preset.data structure: groupId → dayOfWeek → hour → status
+	const preset = presetData as Record<
+		string,
+		Record<string, Record<string, ScheduleStatus>>
+	> | null;
+	if (!preset || typeof preset !== 'object') {
+		return null;
+	}
+
+	const dates = getUpcomingDates(now, WEEK_LENGTH);
+
+	// Parse fact.data structure: timestamp → groupId → hour → status
+	// Days outside the resolved week (e.g. yesterday) are ignored
+	const fact = mapFactToDates(factData);
+
+	// Collect all group IDs from both sources
+	const groupIds = new Set<string>(Object.keys(preset));
+	for (const date of dates) {
+		for (const groupId of Object.keys(fact.get(date) ?? {})) {
+			groupIds.add(groupId);
+		}
+	}
+
+	// Build schedule data for each group with compressed ranges
+	const groups: ScheduleData['groups'] = {};
+
+	for (const groupId of Array.from(groupIds)) {
+		const days: Record<string, DaySchedule> = {};
+
+		for (const date of dates) {
+			// Prefer the actual schedule, fallback to the weekly forecast
+			const factHourly = fact.get(date)?.[groupId];
+			if (factHourly) {
+				days[date] = { ranges: compressDaySchedule(factHourly), source: 'fact' };
+				continue;
+			}
+
+			const presetHourly = preset[groupId]?.[getDayOfWeekForDate(date)];
+			if (presetHourly) {
+				days[date] = { ranges: compressDaySchedule(presetHourly), source: 'preset' };
+			}
+		}
+
+		groups[groupId] = days;
+	}
+
+	return { groups };
+}
+
+/**
+ * Read group display names from DisconSchedule.preset.sch_names
+ * Entries that are not non-empty strings are skipped.
+ */
+export function extractGroupNames(presetObject: unknown): Record<string, string> {
+	const raw = (presetObject as { sch_names?: unknown } | null)?.sch_names;
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		return {};
+	}
+
+	const names: Record<string, string> = {};
+	for (const [groupId, name] of Object.entries(raw)) {
+		if (typeof name === 'string' && name.trim()) {
+			names[groupId] = name.trim();
+		}
+	}
+	return names;
+}
+
+// =============================================================================
+// Template Parsing
+// =============================================================================
+
+/**
+ * Parse DTEK template HTML into validated template data
+ *
+ * @param html - Raw HTML of the /ua/shutdowns page (before any JS runs)
+ * @param region - Region code, used to name the city for single-city street arrays
+ * @param now - Reference instant for schedule resolution
+ * @returns Result with template data, or ParseError describing the missing piece
+ */
+export function parseTemplate(
+	html: string,
+	region: DtekRegion,
+	now: Date = new Date()
+): Result<DtekTemplateData, ParseError> {
+	const csrf = extractCsrf(html);
+	if (!csrf) {
+		return err(
+			parseError('csrf', 'CSRF token not found in DTEK template', {
+				expected: '<meta name="csrf-token" content="...">',
+			})
+		);
+	}
+
+	const validation = disconScheduleSchema.safeParse(parseDisconSchedule(html));
+	if (!validation.success) {
+		const issue = validation.error.issues[0];
+		const field = issue?.path[0];
+		return err(
+			parseError(
+				field === 'streets' ? 'discon_streets' : field === 'fact' ? 'discon_fact' : 'template',
+				'DTEK template contains invalid DisconSchedule data',
+				{
+					expected: 'DisconSchedule.streets, DisconSchedule.fact and DisconSchedule.preset',
+					found: issue ? `${issue.path.join('.')}: ${issue.message}` : undefined,
+					cause: validation.error,
+				}
+			)
+		);
+	}
+
+	const validated = validation.data;
+
+	// Normalize streets (can be array for single-city regions or object for multi-city)
+	const rawStreetsByCity: Record<string, string[]> = Array.isArray(validated.streets)
+		? { [DTEK_REGION_CITY_NAMES[region]]: validated.streets }
+		: validated.streets;
+
+	// Filter out invalid street entries (empty, whitespace-only, or placeholder like "*")
+	const streetsByCity: Record<string, string[]> = {};
+	for (const [city, streets] of Object.entries(rawStreetsByCity)) {
+		streetsByCity[city] = streets.filter(
+			(street) => street && street.trim() && street.trim() !== '*'
+		);
+	}
+
+	// Resolve schedules from fact.data (real-time) and preset.data (static)
+	const presetData = (validated.preset as { data?: unknown } | null)?.data ?? null;
+	const scheduleData = resolveSchedules(presetData, validated.fact.data, now);
+
+	return ok({
+		csrf,
+		updateFact: validated.fact.update,
+		cities: Object.keys(streetsByCity),
+		streetsByCity,
+		scheduleData: scheduleData && { ...scheduleData, names: extractGroupNames(validated.preset) },
+	});
+}
+
+/**
+ * Build the KV cache entry for a region from parsed template data
+ *
+ * @param region - Region code
+ * @param baseUrl - DTEK base URL for the region
+ * @param template - Parsed template data
+ * @param cookies - Session cookies with their attributes
+ * @param extractedAt - Extraction instant (defaults to now)
+ */
+export function buildCachedRegion(
+	region: DtekRegion,
+	baseUrl: string,
+	template: DtekTemplateData,
+	cookies: StoredCookie[],
+	extractedAt: Date = new Date()
+): DtekCachedRegion {
+	const sessionExpiresAt = getSessionExpiresAt(cookies, region);
+
+	return {
+		region,
+		baseUrl,
+		csrf: template.csrf,
+		cookies,
+		sessionExpiresAt: sessionExpiresAt === null ? null : new Date(sessionExpiresAt).toISOString(),
+		updateFact: template.updateFact,
+		cities: template.cities,
+		streetsByCity: template.streetsByCity,
+		scheduleData: template.scheduleData,
+		extractedAt: extractedAt.toISOString(),
+	};
+}
@@ -50,3 +50,45 @@ export function getRedisEnv(): RedisEnv {
 	cachedRedisEnv = result.data;
 	return cachedRedisEnv;
 }
+
+/**
+ * Schema for outbound DTEK request limits (per region, per server instance)
+ */
+const dtekLimitsEnvSchema = z.object({
+	/** Sustained requests per second to one DTEK subdomain */
+	DTEK_RATE_LIMIT_PER_SECOND: z.coerce.number().positive().default(2),
+	/** Requests allowed in a burst before the sustained rate applies */
+	DTEK_RATE_LIMIT_BURST: z.coerce.number().int().positive().default(5),
+	/** Requests in flight to one DTEK subdomain at the same time */
+	DTEK_MAX_CONCURRENT: z.coerce.number().int().positive().default(3),
+	/** Requests waiting for a slot before new ones are rejected outright */
+	DTEK_MAX_QUEUE_SIZE: z.coerce.number().int().nonnegative().default(50),
+	/** Longest a request waits for a slot before giving up */
+	DTEK_MAX_QUEUE_WAIT_MS: z.coerce.number().int().positive().default(5000),
+});
+
+export type DtekLimitsEnv = z.infer<typeof dtekLimitsEnvSchema>;
+
+let cachedDtekLimitsEnv: DtekLimitsEnv | null = null;
+
+/**
+ * Get validated DTEK rate limit settings
+ * All variables are optional and fall back to conservative defaults
+ *
+ * @throws {Error} If a variable is set to an invalid value
+ */
+export function getDtekLimitsEnv(): DtekLimitsEnv {
+	if (cachedDtekLimitsEnv) return cachedDtekLimitsEnv;
+
+	const result = dtekLimitsEnvSchema.safeParse(process.env);
+
+	if (!result.success) {
+		const message = result.error.issues
+			.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+			.join(', ');
+		throw new Error(`Environment validation failed: ${message}`);
+	}
+
+	cachedDtekLimitsEnv = result.data;
+	return cachedDtekLimitsEnv;
+}
@@ -7,10 +7,24 @@
  * 3. Returns Result<T, KvError> for explicit error handling
  */
 
+import { createHash } from 'crypto';
 import Redis from 'ioredis';
 import type { Result } from '$lib/types';
 import { ok, err, kvError } from '$lib/types';
-import { dtekDataKey, type DtekCachedRegion } from '$lib/types/dtek-cache';
+import {
+	dtekDataKey,
+	dtekStatusKey,
+	dtekSessionsKey,
+	dtekSessionStatsKey,
+	DTEK_META_KEY,
+	DTEK_STATUS_TTL,
+	DTEK_CACHE_TTL,
+	type DtekCachedRegion,
+	type DtekCachedStatus,
+	type DtekCacheMeta,
+	type DtekSessionPool,
+	type DtekSessionStats,
+} from '$lib/types/dtek-cache';
 import type { RegionCode } from '$lib/constants/regions';
 import { getRedisEnv } from '$lib/server/env';
 
@@ -64,3 +78,282 @@ export async function getDtekRegionData(
 		return err(kvError(message, cause));
 	}
 }
+
+/**
+ * Overwrite cached DTEK data for a region
+ * Keeps the key's remaining TTL so the refresh script stays the source of expiry
+ * @param region - Region code (kem, oem, dnem, dem)
+ * @param data - Full region data to store
+ * @returns Result with void on success, or KvError
+ */
+export async function setDtekRegionData(
+	region: RegionCode,
+	data: DtekCachedRegion
+): Promise<Result<void, import('$lib/types').KvError>> {
+	const key = dtekDataKey(region);
+
+	try {
+		const client = getRedis();
+		const written = await client.set(key, JSON.stringify(data), 'KEEPTTL', 'XX');
+
+		if (written !== 'OK') {
+			return err(kvError(`No cached data to update for region: ${region}`));
+		}
+
+		return ok(undefined);
+	} catch (cause) {
+		console.error(`[KV Client] Error writing ${region}:`, cause);
+		return err(kvError(`Failed to write KV data for ${region}`, cause));
+	}
+}
+
+/**
+ * Get refresh metadata written by the refresh script
+ * @returns Result with metadata (null if the script has not written it yet), or KvError
+ */
+export async function getDtekMeta(): Promise<
+	Result<DtekCacheMeta | null, import('$lib/types').KvError>
+> {
+	try {
+		const client = getRedis();
+		const raw = await client.get(DTEK_META_KEY);
+
+		if (!raw) {
+			return ok(null);
+		}
+
+		const meta: DtekCacheMeta = JSON.parse(raw);
+		return ok(meta);
+	} catch (cause) {
+		console.error('[KV Client] Error reading refresh metadata:', cause);
+		return err(kvError('Failed to read refresh metadata', cause));
+	}
+}
+
+/**
+ * Redis key for a street's statuses
+ * City and street are hashed to keep Cyrillic names and separators out of the key.
+ */
+function statusKey(region: RegionCode, city: string, street: string): string {
+	const hash = createHash('sha1').update(`${city}\n${street}`).digest('hex');
+	return dtekStatusKey(region, hash);
+}
+
+/**
+ * Get cached building statuses for a street
+ * @returns Result with cached statuses (null if none are cached), or KvError
+ */
+export async function getDtekStatus(
+	region: RegionCode,
+	city: string,
+	street: string
+): Promise<Result<DtekCachedStatus | null, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		const raw = await client.get(statusKey(region, city, street));
+
+		if (!raw) {
+			return ok(null);
+		}
+
+		const status: DtekCachedStatus = JSON.parse(raw);
+		return ok(status);
+	} catch (cause) {
+		console.error(`[KV Client] Error reading status for ${region}:`, cause);
+		return err(kvError(`Failed to read cached status for ${region}`, cause));
+	}
+}
+
+/**
+ * Store building statuses for a street
+ * @returns Result with void on success, or KvError
+ */
+export async function setDtekStatus(
+	region: RegionCode,
+	city: string,
+	street: string,
+	status: DtekCachedStatus
+): Promise<Result<void, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		await client.set(
+			statusKey(region, city, street),
+			JSON.stringify(status),
+			'EX',
+			DTEK_STATUS_TTL
+		);
+		return ok(undefined);
+	} catch (cause) {
+		console.error(`[KV Client] Error writing status for ${region}:`, cause);
+		return err(kvError(`Failed to write cached status for ${region}`, cause));
+	}
+}
+
+/** Hash fields kept per session: "{id}:{counter}" */
+const SESSION_COUNTERS = ['successes', 'rejections', 'consecutive', 'quarantinedUntil'] as const;
+
+/**
+ * Get a region's session pool
+ * @returns Result with the pool (null if none was written yet), or KvError
+ */
+export async function getDtekSessionPool(
+	region: RegionCode
+): Promise<Result<DtekSessionPool | null, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		const raw = await client.get(dtekSessionsKey(region));
+
+		if (!raw) {
+			return ok(null);
+		}
+
+		const pool: DtekSessionPool = JSON.parse(raw);
+		return ok(pool);
+	} catch (cause) {
+		console.error(`[KV Client] Error reading session pool for ${region}:`, cause);
+		return err(kvError(`Failed to read session pool for ${region}`, cause));
+	}
+}
+
+/**
+ * Overwrite a region's session pool
+ * Counters of sessions that left the pool are dropped in the same transaction.
+ * @param removedIds - Sessions no longer in the pool
+ * @returns Result with void on success, or KvError
+ */
+export async function setDtekSessionPool(
+	region: RegionCode,
+	pool: DtekSessionPool,
+	removedIds: string[] = []
+): Promise<Result<void, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		const tx = client
+			.multi()
+			.set(dtekSessionsKey(region), JSON.stringify(pool), 'EX', DTEK_CACHE_TTL);
+		const fields = removedIds.flatMap((id) =>
+			SESSION_COUNTERS.map((counter) => `${id}:${counter}`)
+		);
+		if (fields.length > 0) {
+			tx.hdel(dtekSessionStatsKey(region), ...fields);
+		}
+		await tx.exec();
+		return ok(undefined);
+	} catch (cause) {
+		console.error(`[KV Client] Error writing session pool for ${region}:`, cause);
+		return err(kvError(`Failed to write session pool for ${region}`, cause));
+	}
+}
+
+/**
+ * Get health counters of a region's pooled sessions
+ * @returns Result with counters by session id (sessions never used are absent), or KvError
+ */
+export async function getDtekSessionStats(
+	region: RegionCode
+): Promise<Result<Record<string, DtekSessionStats>, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		const hash = await client.hgetall(dtekSessionStatsKey(region));
+
+		const stats: Record<string, DtekSessionStats> = {};
+		for (const [field, value] of Object.entries(hash)) {
+			const separator = field.lastIndexOf(':');
+			const id = field.slice(0, separator);
+			const entry = (stats[id] ??= {
+				successes: 0,
+				rejections: 0,
+				consecutiveRejections: 0,
+				quarantinedUntil: null,
+			});
+			switch (field.slice(separator + 1)) {
+				case 'successes':
+					entry.successes = Number(value);
+					break;
+				case 'rejections':
+					entry.rejections = Number(value);
+					break;
+				case 'consecutive':
+					entry.consecutiveRejections = Number(value);
+					break;
+				case 'quarantinedUntil':
+					entry.quarantinedUntil = Number(value);
+					break;
+			}
+		}
+		return ok(stats);
+	} catch (cause) {
+		console.error(`[KV Client] Error reading session stats for ${region}:`, cause);
+		return err(kvError(`Failed to read session stats for ${region}`, cause));
+	}
+}
+
+/**
+ * Count a request DTEK accepted and reset the session's rejection streak
+ * @returns Result with void on success, or KvError
+ */
+export async function recordDtekSessionSuccess(
+	region: RegionCode,
+	id: string
+): Promise<Result<void, import('$lib/types').KvError>> {
+	const key = dtekSessionStatsKey(region);
+
+	try {
+		const client = getRedis();
+		await client
+			.multi()
+			.hincrby(key, `${id}:successes`, 1)
+			.hset(key, `${id}:consecutive`, 0)
+			.expire(key, DTEK_CACHE_TTL)
+			.exec();
+		return ok(undefined);
+	} catch (cause) {
+		console.error(`[KV Client] Error recording session success for ${region}:`, cause);
+		return err(kvError(`Failed to record session success for ${region}`, cause));
+	}
+}
+
+/**
+ * Count a request DTEK rejected
+ * Counters are incremented atomically, so instances sharing a session agree on its streak.
+ * @returns Result with the session's consecutive rejections, or KvError
+ */
+export async function recordDtekSessionRejection(
+	region: RegionCode,
+	id: string
+): Promise<Result<number, import('$lib/types').KvError>> {
+	const key = dtekSessionStatsKey(region);
+
+	try {
+		const client = getRedis();
+		const replies = await client
+			.multi()
+			.hincrby(key, `${id}:rejections`, 1)
+			.hincrby(key, `${id}:consecutive`, 1)
+			.expire(key, DTEK_CACHE_TTL)
+			.exec();
+		return ok(Number(replies?.[1]?.[1] ?? 0));
+	} catch (cause) {
+		console.error(`[KV Client] Error recording session rejection for ${region}:`, cause);
+		return err(kvError(`Failed to record session rejection for ${region}`, cause));
+	}
+}
+
+/**
+ * Take a session out of rotation until the given time
+ * @returns Result with void on success, or KvError
+ */
+export async function quarantineDtekSession(
+	region: RegionCode,
+	id: string,
+	until: number
+): Promise<Result<void, import('$lib/types').KvError>> {
+	try {
+		const client = getRedis();
+		await client.hset(dtekSessionStatsKey(region), `${id}:quarantinedUntil`, until);
+		return ok(undefined);
+	} catch (cause) {
+		console.error(`[KV Client] Error quarantining session for ${region}:`, cause);
+		return err(kvError(`Failed to quarantine session for ${region}`, cause));
+	}
+}
@@ -1,5 +1,5 @@
 import { json } from '@sveltejs/kit';
-import type { DtekError } from '$lib/types';
+import type { ApiErrorResponse, DtekError, NotFoundError } from '$lib/types';
 import { errorToHttpStatus, errorToUserMessage, formatErrorForLog } from '$lib/types';
 import type { RetryError } from '$lib/utils/retry';
 import { captureDtekError } from './sentry';
@@ -11,17 +11,88 @@ import { captureDtekError } from './sentry';
  * @returns JSON response with error details and appropriate HTTP status
  */
 export function handleServiceError(logPrefix: string, error: DtekError) {
+	reportServiceError(logPrefix, error);
+
+	const headers: Record<string, string> = {};
+	if (error.code === 'RATE_LIMITED') {
+		headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+	}
+
+	return json(serviceErrorBody(error), { status: errorToHttpStatus(error), headers });
+}
+
+/**
+ * Build the client-facing error body for a service error
+ * @param error - DtekError from service result
+ * @returns Error code, user message and, for unknown addresses, suggestions
+ */
+export function serviceErrorBody(error: DtekError): ApiErrorResponse {
+	const body: ApiErrorResponse = { error: error.code, message: errorToUserMessage(error) };
+	if (isNotFoundError(error)) {
+		body.suggestions = error.suggestions;
+	}
+	return body;
+}
+
+/**
+ * Log a service error and capture it to Sentry without building a response
+ * Used directly when the route recovers from the error (e.g., by serving stale data).
+ * @param logPrefix - Prefix for console.error log message
+ * @param error - DtekError from service result
+ * @param extra - Additional Sentry context
+ */
+export function reportServiceError(
+	logPrefix: string,
+	error: DtekError,
+	extra?: Record<string, unknown>
+): void {
 	console.error(logPrefix, formatErrorForLog(error));
 
+	// Unknown addresses are user input, not something to alert on
+	if (isNotFoundError(error)) return;
+
 	// Capture to Sentry with full context
-	captureDtekError(error, { logPrefix });
+	captureDtekError(error, { logPrefix, ...extra });
+}
 
-	return json(
-		{ error: error.code, message: errorToUserMessage(error) },
-		{ status: errorToHttpStatus(error) }
+/**
+ * Check whether the error is about an address or group that doesn't exist
+ */
+function isNotFoundError(error: DtekError): error is NotFoundError {
+	return (
+		error.code === 'CITY_NOT_FOUND' ||
+		error.code === 'STREET_NOT_FOUND' ||
+		error.code === 'BUILDING_NOT_FOUND' ||
+		error.code === 'GROUP_NOT_FOUND'
 	);
 }
 
+/** Error codes that retrying cannot fix (see isRetryableError) */
+const NON_RETRYABLE_CODES = new Set<string>([
+	'RATE_LIMITED',
+	'REGION_UNAVAILABLE',
+	'BLOCKED',
+	'CITY_NOT_FOUND',
+	'STREET_NOT_FOUND',
+	'BUILDING_NOT_FOUND',
+	'GROUP_NOT_FOUND',
+]);
+
+/**
+ * Decide whether a failed service call is worth retrying
+ * Rate limited requests already waited for a slot; retrying only lengthens the queue.
+ * An unavailable region (open circuit) will not recover within the retry delays,
+ * and hitting a WAF block again within seconds only makes the block last longer.
+ * An unknown city, street, building or group stays unknown.
+ *
+ * @param error - Error from the failed attempt
+ * @returns false for errors that retrying cannot fix
+ */
+export function isRetryableError(error: unknown): boolean {
+	const code = (error as DtekError | null)?.code;
+	return !code || !NON_RETRYABLE_CODES.has(code);
+}
+
 /**
  * Unwrap RetryError to get the underlying DtekError
  *
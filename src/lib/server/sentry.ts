@@ -21,6 +21,10 @@ export function captureDtekError(error: DtekError, extra?: Record<string, unknow
 	if (!isSentryEnabled()) return;
 
 	Sentry.setTag('error_code', error.code);
+	if (error.code === 'BLOCKED') {
+		// WAF blocks need their own alerting, apart from ordinary upstream failures
+		Sentry.setTag('waf_block', error.reason);
+	}
 
 	// Add error-specific context
 	Sentry.setContext('dtek_error', {
@@ -57,6 +61,33 @@ function getErrorSpecificContext(error: DtekError): Record<string, unknown> {
 			return { field: error.field, constraint: error.constraint };
 		case 'REGION_UNAVAILABLE':
 			return { region: error.region };
+		case 'RATE_LIMITED':
+			return { reason: error.reason, region: error.region, retryAfterMs: error.retryAfterMs };
+		case 'BLOCKED':
+			return {
+				reason: error.reason,
+				region: error.region,
+				httpStatus: error.httpStatus,
+				incidentId: error.incidentId,
+			};
+		case 'UPSTREAM_REJECTED':
+			return {
+				reason: error.reason,
+				region: error.region,
+				updateFact: error.updateFact,
+				updateTimestamp: error.updateTimestamp,
+			};
+		case 'CITY_NOT_FOUND':
+		case 'STREET_NOT_FOUND':
+		case 'BUILDING_NOT_FOUND':
+		case 'GROUP_NOT_FOUND':
+			return {
+				region: error.region,
+				city: error.city,
+				street: error.street,
+				building: error.building,
+				group: error.group,
+			};
 		case 'KV_ERROR':
 			return {};
 		default:
@@ -0,0 +1,99 @@
+/**
+ * Street status lookup shared by the status routes
+ *
+ * GET /api/status and POST /api/status/batch answer the same question per street:
+ * check the address against the directory, ask DTEK (with retries) and fall back
+ * to last-known statuses when DTEK can't be reached.
+ */
+
+import type { BuildingStatus } from '$lib/types/address';
+import type { DtekError, FetchedStatus, Result } from '$lib/types';
+import { ok, err, parseError } from '$lib/types';
+import type { RegionCode } from '$lib/constants/regions';
+import { withRetry, DEFAULT_RETRY_DELAYS } from '$lib/utils/retry';
+import { getDtekService } from './dtek/service';
+import { transformBuildingStatus } from './dtek/transform';
+import { isRetryableError, reportServiceError, unwrapRetryError } from './route-utils';
+
+/**
+ * Transformed statuses of every building on a street
+ */
+export interface StreetStatus {
+	fetched: FetchedStatus;
+	buildings: Record<string, BuildingStatus>;
+}
+
+/**
+ * Get building statuses for a street
+ * When DTEK fails but the street was fetched before, the error is reported and
+ * last-known statuses are returned (marked stale).
+ *
+ * @param logPrefix - Prefix for log messages and Sentry context
+ * @returns Result with transformed statuses, or the DtekError to answer with
+ */
+export async function getStreetStatus(
+	region: RegionCode,
+	city: string,
+	street: string,
+	logPrefix: string
+): Promise<Result<StreetStatus, DtekError>> {
+	const service = getDtekService(region);
+
+	// Only addresses from the directory are sent to DTEK with our sessions.
+	// Without the directory getStatus may still answer from cache, so that is not an error here.
+	const address = await service.validateAddress(city, street);
+	if (!address.ok && address.error.code !== 'KV_ERROR') return address;
+
+	const result = await withRetry(() => service.getStatus(city, street), {
+		delays: DEFAULT_RETRY_DELAYS,
+		shouldRetry: isRetryableError,
+		onRetry: (attempt, _, delay) => {
+			console.log(`[API] Status retry ${attempt} for ${city} / ${street}, waiting ${delay}ms`);
+		},
+	});
+
+	let fetched: FetchedStatus;
+	if (result.ok) {
+		fetched = result.value;
+	} else {
+		// Live call failed: the last successful response is more useful than an error
+		const error = unwrapRetryError(result.error);
+		const lastKnown = await service.getLastKnownStatus(city, street);
+		if (!lastKnown) return err(error);
+
+		reportServiceError(logPrefix, error, { servedStale: true });
+		console.log(
+			`[API] Serving last-known data for ${city} / ${street} from ${lastKnown.fetchedAt}`
+		);
+		fetched = lastKnown;
+	}
+
+	// Validate response structure
+	const { response } = fetched;
+	if (!response || !response.data || typeof response.data !== 'object') {
+		console.error('[API] Invalid response structure from dtekService:', response);
+		return err(
+			parseError('json', 'Invalid response structure from DtekService', {
+				expected: 'DtekStatusResponse with a data object',
+			})
+		);
+	}
+
+	const buildings: Record<string, BuildingStatus> = {};
+	for (const [num, raw] of Object.entries(response.data)) {
+		buildings[num] = transformBuildingStatus(raw);
+	}
+
+	return ok({ fetched, buildings });
+}
+
+/**
+ * Schedule groups referenced by buildings, without duplicates
+ */
+export function collectGroupIds(buildings: Iterable<BuildingStatus | null>): string[] {
+	const groupIds = new Set<string>();
+	for (const status of buildings) {
+		if (status?.group) groupIds.add(status.group);
+	}
+	return [...groupIds];
+}
@@ -1,7 +1,7 @@
 /**
  * API route validation utilities
  *
- * Provides helper functions for validating query parameters
+ * Provides helper functions for validating query parameters and JSON bodies
  * in SvelteKit API routes using Zod schemas.
  * Uses the Result<T, E> pattern for consistency with the rest of the codebase.
  */
@@ -40,33 +40,71 @@ export function validateQuery<T extends z.ZodType>(
 	const result = schema.safeParse(params);
 
 	if (!result.success) {
-		// Get the first error message for user display
-		const firstError = result.error.issues[0];
-		const message = firstError?.message ?? 'Невірні параметри запиту';
-
-		// Build field errors array for frontend
-		const fieldErrors = result.error.issues.map((issue) => ({
-			field: issue.path.join('.'),
-			code: issue.code.toUpperCase(),
-			message: issue.message,
-		}));
-
 		console.error('[API Validation] Query validation failed:', {
 			params,
 			errors: result.error.flatten(),
 		});
+		return err(validationError(result.error.issues));
+	}
 
-		return err({
-			response: json(
-				{
-					error: 'VALIDATION_ERROR',
-					message,
-					errors: fieldErrors,
-				},
-				{ status: 400 }
-			),
-		});
+	return ok(result.data);
+}
+
+/**
+ * Validate a JSON request body against a Zod schema
+ *
+ * @param request - The incoming request
+ * @param schema - Zod schema to validate against
+ * @returns Result with typed data on success, or ApiValidationError on failure
+ *          (including a body that is not JSON)
+ */
+export async function validateBody<T extends z.ZodType>(
+	request: Request,
+	schema: T
+): Promise<Result<z.infer<T>, ApiValidationError>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		console.error('[API Validation] Request body is not valid JSON');
+		return err(validationError([], 'Тіло запиту має бути JSON'));
+	}
+
+	const result = schema.safeParse(body);
+
+	if (!result.success) {
+		console.error('[API Validation] Body validation failed:', result.error.flatten());
+		return err(validationError(result.error.issues));
 	}
 
 	return ok(result.data);
 }
+
+/**
+ * Build the 400 response for failed validation
+ */
+function validationError(
+	issues: z.core.$ZodIssue[],
+	fallbackMessage = 'Невірні параметри запиту'
+): ApiValidationError {
+	// Get the first error message for user display
+	const message = issues[0]?.message ?? fallbackMessage;
+
+	// Build field errors array for frontend
+	const fieldErrors = issues.map((issue) => ({
+		field: issue.path.join('.'),
+		code: issue.code.toUpperCase(),
+		message: issue.message,
+	}));
+
+	return {
+		response: json(
+			{
+				error: 'VALIDATION_ERROR',
+				message,
+				errors: fieldErrors,
+			},
+			{ status: 400 }
+		),
+	};
+}
@@ -1,30 +1,58 @@
 import { writable, get } from 'svelte/store';
-import type { SavedAddress, BuildingStatus } from '$lib/types/address';
-import type { ScheduleRange } from '$lib/types/dtek';
-import { fetchBuildingStatuses } from '$lib/utils/api-client';
+import type {
+	SavedAddress,
+	SavedBuildingAddress,
+	SavedGroup,
+	BuildingStatus,
+} from '$lib/types/address';
+import type { DaySchedule } from '$lib/types/dtek';
+import { BATCH_STATUS_MAX_ADDRESSES } from '$lib/schemas';
+import {
+	fetchBatchStatuses,
+	fetchBuildingStatuses,
+	fetchGroupSchedule,
+} from '$lib/utils/api-client';
 import { showError } from '$lib/stores/toast';
+import { getKyivDateString } from '$lib/utils/kyiv-time';
 
 /**
  * Prefix schedule keys with region to avoid collisions.
  * Same group IDs exist across regions with different schedules.
  */
 function prefixSchedulesWithRegion(
-	schedules: Record<string, Record<string, ScheduleRange[]>>,
+	schedules: Record<string, Record<string, DaySchedule>>,
 	region: string
-): Record<string, Record<string, ScheduleRange[]>> {
-	const prefixed: Record<string, Record<string, ScheduleRange[]>> = {};
+): Record<string, Record<string, DaySchedule>> {
+	const prefixed: Record<string, Record<string, DaySchedule>> = {};
 	for (const [groupId, daySchedules] of Object.entries(schedules)) {
 		prefixed[`${region}:${groupId}`] = daySchedules;
 	}
 	return prefixed;
 }
 
+/**
+ * Merge incoming schedules into the cache date by date, dropping past days.
+ * Newer responses win for the dates they cover; dates they don't cover are kept.
+ */
+function mergeSchedules(
+	existing: Record<string, Record<string, DaySchedule>>,
+	incoming: Record<string, Record<string, DaySchedule>>,
+	today: string
+): Record<string, Record<string, DaySchedule>> {
+	const merged: Record<string, Record<string, DaySchedule>> = {};
+	for (const key of new Set([...Object.keys(existing), ...Object.keys(incoming)])) {
+		const days = { ...existing[key], ...incoming[key] };
+		merged[key] = Object.fromEntries(Object.entries(days).filter(([date]) => date >= today));
+	}
+	return merged;
+}
+
 /**
  * Cached schedule data from API responses
  */
 export interface ScheduleCache {
-	/** Schedules by group ID, then by day (1-7) */
-	schedules: Record<string, Record<string, ScheduleRange[]>>;
+	/** Schedules by region-prefixed group ID, then by Kyiv date ("YYYY-MM-DD") */
+	schedules: Record<string, Record<string, DaySchedule>>;
 	/** Unix timestamp when schedules were last updated */
 	fetchedAt: number;
 }
@@ -37,6 +65,8 @@ export interface StatusCacheEntry {
 	status: BuildingStatus | null;
 	/** Unix timestamp when status was fetched */
 	fetchedAt: number;
+	/** True when the server could not reach DTEK and served last-known data */
+	stale: boolean;
 	/** Loading state for this address */
 	loading: boolean;
 	/** Error message if fetch failed */
@@ -55,9 +85,11 @@ function createAddressStatusStore() {
 	const { subscribe, update } = writable<Map<string, StatusCacheEntry>>(new Map());
 
 	/**
-	 * Fetch status for a single address
+	 * Fetch status for a single address or group
 	 */
 	async function fetchStatus(address: SavedAddress): Promise<void> {
+		if (address.kind === 'group') return fetchGroupStatus(address);
+
 		const { id, region, city, street, building } = address;
 
 		// Get current entry for preserving status during loading
@@ -70,6 +102,7 @@ function createAddressStatusStore() {
 			newCache.set(id, {
 				status: cachedEntry?.status || null,
 				fetchedAt: cachedEntry?.fetchedAt || 0,
+				stale: cachedEntry?.stale ?? false,
 				loading: true,
 				error: null,
 			});
@@ -87,6 +120,7 @@ function createAddressStatusStore() {
 				newCache.set(id, {
 					status: cachedEntry?.status || null,
 					fetchedAt: cachedEntry?.fetchedAt || 0,
+					stale: cachedEntry?.stale ?? false,
 					loading: false,
 					error: result.error.message,
 				});
@@ -105,7 +139,7 @@ function createAddressStatusStore() {
 		if (response.schedules && Object.keys(response.schedules).length > 0) {
 			const prefixedSchedules = prefixSchedulesWithRegion(response.schedules, region);
 			scheduleCacheStore.update((cache) => ({
-				schedules: { ...cache?.schedules, ...prefixedSchedules },
+				schedules: mergeSchedules(cache?.schedules ?? {}, prefixedSchedules, getKyivDateString()),
 				fetchedAt: response.fetchedAt,
 			}));
 		}
@@ -116,6 +150,74 @@ function createAddressStatusStore() {
 			newCache.set(id, {
 				status: buildingStatus,
 				fetchedAt: response.fetchedAt,
+				stale: response.stale ?? false,
+				loading: false,
+				error: null,
+			});
+			return newCache;
+		});
+	}
+
+	/**
+	 * Fetch the schedule of a group-only entry
+	 * There is no building to ask DTEK about, so the status only carries the group
+	 * and the card shows the schedule-based state.
+	 */
+	async function fetchGroupStatus(entry: SavedGroup): Promise<void> {
+		const { id, region, group } = entry;
+
+		// Get current entry for preserving status during loading
+		const cachedEntry = get({ subscribe }).get(id);
+
+		// Set loading state
+		update((cache) => {
+			const newCache = new Map(cache);
+			newCache.set(id, {
+				status: cachedEntry?.status || null,
+				fetchedAt: cachedEntry?.fetchedAt || 0,
+				stale: cachedEntry?.stale ?? false,
+				loading: true,
+				error: null,
+			});
+			return newCache;
+		});
+
+		const result = await fetchGroupSchedule(region, group);
+
+		if (!result.ok) {
+			showError(result.error.message);
+
+			update((cache) => {
+				const newCache = new Map(cache);
+				newCache.set(id, {
+					status: cachedEntry?.status || null,
+					fetchedAt: cachedEntry?.fetchedAt || 0,
+					stale: cachedEntry?.stale ?? false,
+					loading: false,
+					error: result.error.message,
+				});
+				return newCache;
+			});
+			return;
+		}
+
+		const response = result.value;
+
+		scheduleCacheStore.update((cache) => ({
+			schedules: mergeSchedules(
+				cache?.schedules ?? {},
+				{ [`${region}:${group}`]: response.schedule },
+				getKyivDateString()
+			),
+			fetchedAt: response.extractedAt,
+		}));
+
+		update((cache) => {
+			const newCache = new Map(cache);
+			newCache.set(id, {
+				status: { group },
+				fetchedAt: response.extractedAt,
+				stale: response.stale,
 				loading: false,
 				error: null,
 			});
@@ -124,11 +226,116 @@ function createAddressStatusStore() {
 	}
 
 	/**
-	 * Fetch statuses for multiple addresses in parallel
+	 * Fetch statuses for up to BATCH_STATUS_MAX_ADDRESSES addresses with one request
+	 */
+	async function fetchBatch(addresses: SavedBuildingAddress[]): Promise<void> {
+		// Get current entries for preserving statuses during loading
+		const currentCache = get({ subscribe });
+
+		// Set loading state
+		update((cache) => {
+			const newCache = new Map(cache);
+			for (const { id } of addresses) {
+				const cachedEntry = currentCache.get(id);
+				newCache.set(id, {
+					status: cachedEntry?.status || null,
+					fetchedAt: cachedEntry?.fetchedAt || 0,
+					stale: cachedEntry?.stale ?? false,
+					loading: true,
+					error: null,
+				});
+			}
+			return newCache;
+		});
+
+		const result = await fetchBatchStatuses(
+			addresses.map(({ region, city, street, building }) => ({ region, city, street, building }))
+		);
+
+		if (!result.ok) {
+			showError(result.error.message);
+
+			// Update every entry with the error
+			update((cache) => {
+				const newCache = new Map(cache);
+				for (const { id } of addresses) {
+					const cachedEntry = currentCache.get(id);
+					newCache.set(id, {
+						status: cachedEntry?.status || null,
+						fetchedAt: cachedEntry?.fetchedAt || 0,
+						stale: cachedEntry?.stale ?? false,
+						loading: false,
+						error: result.error.message,
+					});
+				}
+				return newCache;
+			});
+			return;
+		}
+
+		const { results, schedules } = result.value;
+
+		// Update schedule cache (keys are already prefixed with region by the server)
+		if (Object.keys(schedules).length > 0) {
+			const fetchedAt = Math.max(...results.map((item) => (item.ok ? item.fetchedAt : 0)));
+			scheduleCacheStore.update((cache) => ({
+				schedules: mergeSchedules(cache?.schedules ?? {}, schedules, getKyivDateString()),
+				fetchedAt,
+			}));
+		}
+
+		// Results come back in request order; failures are reported per address
+		const errorMessages = new Set<string>();
+		update((cache) => {
+			const newCache = new Map(cache);
+			addresses.forEach(({ id }, index) => {
+				const item = results[index];
+				if (item.ok) {
+					newCache.set(id, {
+						status: item.status,
+						fetchedAt: item.fetchedAt,
+						stale: item.stale,
+						loading: false,
+						error: null,
+					});
+					return;
+				}
+
+				errorMessages.add(item.error.message);
+				const cachedEntry = currentCache.get(id);
+				newCache.set(id, {
+					status: cachedEntry?.status || null,
+					fetchedAt: cachedEntry?.fetchedAt || 0,
+					stale: cachedEntry?.stale ?? false,
+					loading: false,
+					error: item.error.message,
+				});
+			});
+			return newCache;
+		});
+
+		// Addresses on the same failing street share an error: show it once
+		for (const message of errorMessages) {
+			showError(message);
+		}
+	}
+
+	/**
+	 * Fetch statuses for multiple addresses and groups
+	 * Addresses use the batch endpoint, so addresses on the same street cost one DTEK lookup;
+	 * group-only entries fetch their group schedule.
 	 */
 	async function fetchAllStatuses(addresses: SavedAddress[]): Promise<void> {
-		const promises = addresses.map((address) => fetchStatus(address));
-		await Promise.allSettled(promises);
+		const buildingAddresses = addresses.filter(
+			(address): address is SavedBuildingAddress => address.kind === 'address'
+		);
+		const groups = addresses.filter((address): address is SavedGroup => address.kind === 'group');
+
+		const requests: Promise<void>[] = groups.map((group) => fetchGroupStatus(group));
+		for (let i = 0; i < buildingAddresses.length; i += BATCH_STATUS_MAX_ADDRESSES) {
+			requests.push(fetchBatch(buildingAddresses.slice(i, i + BATCH_STATUS_MAX_ADDRESSES)));
+		}
+		await Promise.allSettled(requests);
 	}
 
 	/**
@@ -171,6 +378,7 @@ function createAddressStatusStore() {
 		 */
 		_reset: (): void => {
 			update(() => new Map());
+			scheduleCacheStore.set(null);
 		},
 	};
 }
@@ -1,16 +1,17 @@
 import { writable } from 'svelte/store';
-import type { SavedAddress } from '$lib/types/address.js';
+import type { SavedAddress, SavedAddressInput, SavedBuildingAddress } from '$lib/types/address.js';
 import type { RegionCode } from '$lib/constants/regions';
 import { loadFromStorage, saveToStorage } from '$lib/utils/storage';
 
 const STORAGE_KEY = 'dtek-addresses';
 const INTERACTED_KEY = 'dtek-has-interacted';
-const SCHEMA_VERSION = 2; // Version 2 adds region field
+const SCHEMA_VERSION = 3; // Version 2 adds region field, version 3 adds kind (address or group)
 
 /**
  * Sample address shown to first-time users
  */
-const SAMPLE_ADDRESS: Omit<SavedAddress, 'id' | 'createdAt'> = {
+const SAMPLE_ADDRESS: SavedAddressInput = {
+	kind: 'address',
 	region: 'kem' as RegionCode,
 	city: 'м. Київ',
 	street: 'вул. Хрещатик',
@@ -27,26 +28,48 @@ interface StoredData {
 }
 
 /**
- * Load addresses from localStorage with schema validation
- * Clears data if schema version doesn't match
+ * Validate stored data and migrate it to the current schema version
+ * - Version 1 (array without region): cleared
+ * - Version 2: every entry was a street address, so it gets kind 'address'
+ * - Version 3: current
+ *
+ * @returns Migrated entries, or null when the data can't be used
  */
-function loadAddresses(): SavedAddress[] {
-	return loadFromStorage<SavedAddress[]>(STORAGE_KEY, [], (parsed) => {
-		// Check if it's the new versioned format
-		if (typeof parsed === 'object' && parsed !== null && 'version' in parsed) {
-			const stored = parsed as StoredData;
-			if (stored.version !== SCHEMA_VERSION) {
-				console.warn(
-					`[AddressStore] Schema version mismatch: expected ${SCHEMA_VERSION}, got ${stored.version}. Clearing data.`
-				);
-				return null; // Return null to use default (empty array)
-			}
-			return Array.isArray(stored.data) ? stored.data : null;
-		}
-		// Old format (array directly) - version 1 without region, clear it
+export function migrateStoredAddresses(parsed: unknown): SavedAddress[] | null {
+	// Old format (array directly) - version 1 without region, clear it
+	if (typeof parsed !== 'object' || parsed === null || !('version' in parsed)) {
 		console.warn('[AddressStore] Old schema format detected (missing version), clearing data.');
 		return null;
-	});
+	}
+
+	const stored = parsed as StoredData;
+	if (!Array.isArray(stored.data)) return null;
+
+	switch (stored.version) {
+		case 2:
+			console.log('[AddressStore] Migrating addresses from schema version 2 to 3');
+			return (stored.data as Array<Omit<SavedBuildingAddress, 'kind'>>).map(
+				(address): SavedBuildingAddress => ({ ...address, kind: 'address' })
+			);
+		case SCHEMA_VERSION:
+			return stored.data;
+		default:
+			console.warn(
+				`[AddressStore] Schema version mismatch: expected ${SCHEMA_VERSION}, got ${stored.version}. Clearing data.`
+			);
+			return null;
+	}
+}
+
+/**
+ * Load addresses from localStorage with schema validation
+ * Migrates older versions; clears data that can't be migrated
+ */
+function loadAddresses(): SavedAddress[] {
+	const addresses = loadFromStorage<SavedAddress[]>(STORAGE_KEY, [], migrateStoredAddresses);
+	// Persist migrated data so the migration runs once
+	if (addresses.length > 0) saveAddresses(addresses);
+	return addresses;
 }
 
 /**
@@ -94,9 +117,9 @@ function createAddressesStore() {
 		subscribe,
 
 		/**
-		 * Add a new address
+		 * Add a new address or group
 		 */
-		add: (address: Omit<SavedAddress, 'id' | 'createdAt'>): void => {
+		add: (address: SavedAddressInput): void => {
 			markUserInteracted();
 			update((addresses) => {
 				const newAddress: SavedAddress = {
@@ -111,11 +134,15 @@ function createAddressesStore() {
 		},
 
 		/**
-		 * Update an existing address
+		 * Update an existing address or group
+		 * The entry is replaced (keeping id and createdAt), so switching between an address
+		 * and a group leaves no fields of the old kind behind.
 		 */
-		update: (id: string, address: Omit<SavedAddress, 'id' | 'createdAt'>): void => {
+		update: (id: string, address: SavedAddressInput): void => {
 			update((addresses) => {
-				const updated = addresses.map((a) => (a.id === id ? { ...a, ...address } : a));
+				const updated = addresses.map((a) =>
+					a.id === id ? { ...address, id: a.id, createdAt: a.createdAt } : a
+				);
 				saveAddresses(updated);
 				return updated;
 			});
@@ -0,0 +1,75 @@
+import { readable, writable, derived } from 'svelte/store';
+import { appClock, fixedClock, setAppClock, shiftedClock, type Clock } from '$lib/utils/clock';
+import { kyivWallTimeToInstant } from '$lib/utils/kyiv-time';
+import { isBrowser } from '$lib/utils/browser';
+
+/** How often time-dependent UI (traffic light, "today") re-evaluates */
+const TICK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Instant the UI was shifted to via `?now=`, or null for real time
+ */
+const timeTravelStore = writable<Date | null>(null);
+
+/**
+ * Periodic tick so derived UI state follows the clock without a reload
+ */
+const tick = readable(0, (set) => {
+	if (!isBrowser()) return;
+	const interval = setInterval(() => set(Date.now()), TICK_INTERVAL_MS);
+	return () => clearInterval(interval);
+});
+
+/**
+ * Snapshot of the app clock, refreshed on every tick and on time travel.
+ * Components read `$clockStore` so Svelte re-renders when time moves.
+ */
+export const clockStore = derived<[typeof tick, typeof timeTravelStore], Clock>(
+	[tick, timeTravelStore],
+	() => fixedClock(appClock.now())
+);
+
+/**
+ * Parse a `?now=` value into an instant
+ * Without an explicit offset the value is Kyiv wall time ("2025-12-17T23:45"),
+ * since that is how schedules are read; "Z"/"+02:00" suffixes are respected.
+ * @returns Instant, or null when the value is not a valid date-time
+ */
+export function parseTimeTravelParam(value: string): Date | null {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(.*)$/);
+	if (!match) return null;
+
+	const [, year, month, day, hours, minutes, zone] = match;
+	if (zone) {
+		const date = new Date(value);
+		return isNaN(date.getTime()) ? null : date;
+	}
+
+	const instant = kyivWallTimeToInstant(
+		Number(year),
+		Number(month),
+		Number(day),
+		Number(hours),
+		Number(minutes)
+	);
+	return isNaN(instant.getTime()) ? null : instant;
+}
+
+/**
+ * Shift the app clock to the instant from `?now=` (dev builds only)
+ * The shifted clock keeps ticking from that instant.
+ * @param url - Current page URL
+ */
+export function initTimeTravel(url: URL): void {
+	const param = url.searchParams.get('now');
+	const instant = param ? parseTimeTravelParam(param) : null;
+
+	if (param && !instant) {
+		console.warn(`[Clock] Ignoring invalid ?now=${param}`);
+	}
+
+	setAppClock(instant ? shiftedClock(instant) : null);
+	timeTravelStore.set(instant);
+}
+
+export { timeTravelStore };
@@ -0,0 +1,45 @@
+import { writable, get } from 'svelte/store';
+import { fetchHealth } from '$lib/utils/api-client';
+import type { RegionHealth } from '$lib/types/address';
+
+interface HealthState {
+	regions: RegionHealth[];
+	loading: boolean;
+	fetched: boolean;
+}
+
+const initialState: HealthState = {
+	regions: [],
+	loading: false,
+	fetched: false,
+};
+
+function createHealthStore() {
+	const { subscribe, set, update } = writable<HealthState>(initialState);
+
+	return {
+		subscribe,
+
+		/**
+		 * Load data freshness for all regions
+		 * Failures are logged only - the banner is informational
+		 */
+		async load(): Promise<void> {
+			const state = get({ subscribe });
+			if (state.loading) return;
+
+			update((s) => ({ ...s, loading: true }));
+
+			const result = await fetchHealth();
+
+			if (!result.ok) {
+				update((s) => ({ ...s, loading: false }));
+				return;
+			}
+
+			set({ regions: result.value.regions, loading: false, fetched: true });
+		},
+	};
+}
+
+export const healthStore = createHealthStore();
@@ -1,5 +1,6 @@
-import type { ScheduleRange } from './dtek.js';
+import type { CacheStatus, DaySchedule, ScheduleRange } from './dtek.js';
 import type { RegionCode } from '$lib/constants/regions.js';
+import type { TrafficLightStatus } from '$lib/utils/schedule.js';
 
 /**
  * Type of active outage from DTEK API
@@ -30,25 +31,53 @@ export interface BuildingStatus {
 }
 
 /**
- * User's saved address stored in localStorage
+ * Fields shared by every saved entry
  */
-export interface SavedAddress {
+interface SavedEntryBase {
 	/** UUID */
 	id: string;
 	/** Region code, e.g. "kem", "oem" */
 	region: RegionCode;
+	/** Optional user-friendly label ("Дім", "Робота") */
+	label?: string;
+	/** Unix timestamp when the entry was created */
+	createdAt: number;
+}
+
+/**
+ * Saved street address: status comes from DTEK for the building
+ */
+export interface SavedBuildingAddress extends SavedEntryBase {
+	kind: 'address';
 	/** City name, e.g. "м. Одеса" */
 	city: string;
 	/** Street name, e.g. "вул. Педагогічна" */
 	street: string;
 	/** Building number, e.g. "25/39" */
 	building: string;
-	/** Optional user-friendly label ("Дім", "Робота") */
-	label?: string;
-	/** Unix timestamp when address was created */
-	createdAt: number;
 }
 
+/**
+ * Saved queue without an address: only the group schedule is followed
+ */
+export interface SavedGroup extends SavedEntryBase {
+	kind: 'group';
+	/** Schedule group ID, e.g. "GPV3.1" */
+	group: string;
+}
+
+/**
+ * User's saved entry stored in localStorage
+ */
+export type SavedAddress = SavedBuildingAddress | SavedGroup;
+
+/**
+ * Saved entry as entered by the user (the store assigns id and createdAt)
+ */
+export type SavedAddressInput =
+	| Omit<SavedBuildingAddress, 'id' | 'createdAt'>
+	| Omit<SavedGroup, 'id' | 'createdAt'>;
+
 /**
  * API response for GET /api/cities
  */
@@ -71,8 +100,214 @@ export interface StatusResponse {
 	city: string;
 	street: string;
 	buildings: Record<string, BuildingStatus>;
-	schedules: Record<string, Record<string, ScheduleRange[]>>;
+	/** Weekly schedules: groupId → Kyiv date ("YYYY-MM-DD") → schedule */
+	schedules: Record<string, Record<string, DaySchedule>>;
+	/** When the building statuses were fetched from DTEK */
+	fetchedAt: number;
+	/** True when DTEK was unavailable and last-known statuses were served */
+	stale?: boolean;
+	/** How old the last-known statuses were when served (only when stale) */
+	ageMs?: number;
+	/** Whether the statuses came from cache or from DTEK for this request */
+	cacheStatus?: CacheStatus;
+}
+
+/**
+ * API response for GET /api/building: one building with its state resolved
+ * the same way the address card resolves it
+ */
+export interface BuildingStateResponse {
+	region: RegionCode;
+	city: string;
+	street: string;
+	building: string;
+	/** Schedule group ID, e.g., "GPV1.2" (null if DTEK doesn't assign one) */
+	group: string | null;
+	/** Active outage, which takes precedence over the schedule */
+	outage: ActiveOutage | null;
+	/** Current state: outage → today's group schedule → 'on' */
+	state: TrafficLightStatus;
+	/** Today's schedule range the state comes from (float hours, Kyiv time) */
+	currentRange: ScheduleRange | null;
+	/** Unix timestamp of the next expected state change (null if unknown) */
+	nextChangeAt: number | null;
+	/** When the building status was fetched from DTEK */
 	fetchedAt: number;
+	/** True when DTEK was unavailable and last-known status was served */
+	stale: boolean;
+	/** How old the last-known status was when served (only when stale) */
+	ageMs?: number;
+	/** Whether the status came from cache or from DTEK for this request */
+	cacheStatus?: CacheStatus;
+}
+
+/**
+ * Outage schedule group of a region
+ */
+export interface ScheduleGroup {
+	/** Group ID, e.g., "GPV1.2" */
+	id: string;
+	/** Display name from DTEK, e.g., "Черга 1.2" */
+	name: string;
+}
+
+/**
+ * API response for GET /api/groups
+ */
+export interface GroupsResponse {
+	region: RegionCode;
+	/** Groups in natural order */
+	groups: ScheduleGroup[];
+}
+
+/**
+ * API response for GET /api/schedule
+ */
+export interface GroupScheduleResponse {
+	region: RegionCode;
+	group: ScheduleGroup;
+	/** Kyiv date ("YYYY-MM-DD") → schedule, starting today; each day says whether it is fact or preset */
+	schedule: Record<string, DaySchedule>;
+	/** DTEK's own "last updated" stamp for the schedules ("DD.MM.YYYY HH:MM") */
+	updateFact: string;
+	/** When the schedules were extracted from DTEK */
+	extractedAt: number;
+	/** How old the extracted schedules are */
+	ageMs: number;
+	/** True when the schedules haven't been refreshed for longer than expected */
+	stale: boolean;
+}
+
+/**
+ * One address in a POST /api/status/batch request
+ */
+export interface BatchStatusAddress {
+	region: RegionCode;
+	city: string;
+	street: string;
+	building: string;
+}
+
+/**
+ * Outcome for one address of a batch, in request order
+ */
+export type BatchStatusResult = BatchStatusAddress &
+	(
+		| {
+				ok: true;
+				/** Status of the requested building (null if DTEK doesn't list it) */
+				status: BuildingStatus | null;
+				fetchedAt: number;
+				stale: boolean;
+				ageMs?: number;
+				cacheStatus?: CacheStatus;
+		  }
+		| {
+				ok: false;
+				error: ApiErrorResponse;
+		  }
+	);
+
+/**
+ * API response for POST /api/status/batch
+ */
+export interface BatchStatusResponse {
+	results: BatchStatusResult[];
+	/** Schedules of the requested buildings' groups, keyed "{region}:{groupId}", then by date */
+	schedules: Record<string, Record<string, DaySchedule>>;
+}
+
+/**
+ * Circuit breaker state for outbound DTEK requests:
+ * - closed: requests flow normally
+ * - open: requests short-circuit without hitting DTEK
+ * - half-open: a single probe request is testing whether DTEK recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker snapshot for a single region (per server instance)
+ */
+export interface CircuitHealth {
+	state: CircuitState;
+	/** Upstream failures since the last success */
+	consecutiveFailures: number;
+	/** When the breaker last opened (null if it has not opened since the last success) */
+	openedAt: number | null;
+	/** When the next probe is allowed (null unless open) */
+	nextProbeAt: number | null;
+}
+
+/**
+ * In-memory cache counters (per server instance)
+ */
+export interface CacheStats {
+	/** Entries currently stored */
+	size: number;
+	hits: number;
+	misses: number;
+	/** Entries dropped to stay under the size limit */
+	evictions: number;
+	/** Entries dropped because their TTL passed */
+	expirations: number;
+}
+
+/**
+ * Data freshness for a single region
+ */
+export interface RegionHealth {
+	region: RegionCode;
+	/** ISO timestamp of the last successful refresh (null if never refreshed) */
+	lastSuccess: string | null;
+	/** Milliseconds since last successful refresh (null if never refreshed) */
+	ageMs: number | null;
+	/** True when data is older than the staleness threshold or missing */
+	stale: boolean;
+	/** Error from the last failed refresh attempt */
+	error?: string;
+	/** Duration of the last refresh attempt */
+	durationMs?: number;
+	/** Attempts made during the last refresh */
+	attempts?: number;
+	/** Circuit breaker for live status requests on the instance that answered */
+	circuit: CircuitHealth;
+	/** Status caches on the instance that answered */
+	caches: {
+		status: CacheStats;
+		lastKnown: CacheStats;
+	};
+	/** Pooled DTEK sessions with their shared health counters */
+	sessions: SessionHealth[];
+}
+
+/**
+ * Health of one pooled DTEK session
+ */
+export interface SessionHealth {
+	id: string;
+	/** ISO timestamp when the session was minted */
+	createdAt: string;
+	/** ISO timestamp when its first session cookie expires (null = unknown) */
+	expiresAt: string | null;
+	successes: number;
+	rejections: number;
+	consecutiveRejections: number;
+	/** Until when the session is out of rotation (null = not quarantined) */
+	quarantinedUntil: number | null;
+	/** True when the session is in rotation */
+	healthy: boolean;
+}
+
+/**
+ * API response for GET /api/health
+ */
+export interface HealthResponse {
+	/** "degraded" when a region is stale, its circuit is not closed or none of its sessions is healthy */
+	status: 'ok' | 'degraded';
+	/** ISO timestamp of the last refresh run (null if metadata is missing) */
+	lastRefresh: string | null;
+	regions: RegionHealth[];
+	checkedAt: number;
 }
 
 /**
@@ -81,4 +316,6 @@ export interface StatusResponse {
 export interface ApiErrorResponse {
 	error: string;
 	message: string;
+	/** "Did you mean" names for the *_NOT_FOUND errors */
+	suggestions?: string[];
 }
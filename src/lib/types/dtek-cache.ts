@@ -8,11 +8,14 @@
  * Redis Keys:
  *   dtek:data:{region}  - Per-region cached data (TTL: 24h, refreshed every 20min)
  *   dtek:meta           - Last refresh metadata
+ *   dtek:status:{region}:{hash} - Building statuses per street, written by the app (TTL: 24h)
+ *   dtek:sessions:{region} - Pool of independent DTEK sessions (TTL: 24h)
+ *   dtek:sessions:{region}:stats - Per-session health counters (hash, TTL: 24h)
  *
  * Regions: kem | krem | oem | dnem | dem
  */
 
-import type { ScheduleStatus, ScheduleRange } from './dtek.js';
+import type { ScheduleStatus, DaySchedule, DtekStatusResponse } from './dtek.js';
 
 // -----------------------------------------------------------------------------
 // Constants
@@ -27,6 +30,27 @@ export const DTEK_CACHE_TTL = 86400;
 /** Redis key for refresh metadata */
 export const DTEK_META_KEY = 'dtek:meta';
 
+/** Region data older than this is considered stale (3 missed 20-min refresh runs) */
+export const DTEK_STALE_THRESHOLD_MS = 60 * 60 * 1000;
+
+/** Street statuses younger than this are served without asking DTEK */
+export const DTEK_STATUS_FRESH_MS = 2 * 60 * 1000;
+
+/** Street statuses younger than this are served immediately while being revalidated */
+export const DTEK_STATUS_STALE_MS = 30 * 60 * 1000;
+
+/** Street status TTL in seconds (kept well past the stale window as a last-known fallback) */
+export const DTEK_STATUS_TTL = 86400;
+
+/** Independent sessions kept per region, so one flagged session doesn't take the region down */
+export const DTEK_SESSION_POOL_SIZE = 3;
+
+/** Consecutive rejections after which a session is taken out of rotation */
+export const DTEK_SESSION_QUARANTINE_AFTER = 3;
+
+/** How long a quarantined session stays out of rotation */
+export const DTEK_SESSION_QUARANTINE_MS = 10 * 60 * 1000;
+
 // -----------------------------------------------------------------------------
 // Key Helpers
 // -----------------------------------------------------------------------------
@@ -36,6 +60,21 @@ export function dtekDataKey(region: DtekRegion): string {
 	return `dtek:data:${region}`;
 }
 
+/** Get Redis key for a street's cached statuses (hash covers city + street) */
+export function dtekStatusKey(region: DtekRegion, hash: string): string {
+	return `dtek:status:${region}:${hash}`;
+}
+
+/** Get Redis key for a region's session pool */
+export function dtekSessionsKey(region: DtekRegion): string {
+	return `dtek:sessions:${region}`;
+}
+
+/** Get Redis key for a region's per-session health counters */
+export function dtekSessionStatsKey(region: DtekRegion): string {
+	return `dtek:sessions:${region}:stats`;
+}
+
 // -----------------------------------------------------------------------------
 // Region URLs
 // -----------------------------------------------------------------------------
@@ -69,25 +108,41 @@ export const DTEK_REGION_CITY_NAMES: Record<DtekRegion, string> = {
 export type HourlySchedule = Record<string, ScheduleStatus>;
 
 /**
- * Pre-computed compressed schedule data for today and tomorrow.
- * Resolved and compressed by refresh script from fact.data (if available) or preset.data.
+ * Pre-computed compressed schedule data for the week starting at extraction.
+ * Resolved and compressed by refresh script from preset.data, with dates covered by
+ * fact.data overridden by the actual schedule.
  * Uses ScheduleRange[] format for efficient storage and direct pass-through to frontend.
  */
 export interface ScheduleData {
-	/** Day of week for today: "1" = Monday, "7" = Sunday */
-	todayDayOfWeek: string;
+	/** Schedule groups: groupId → Kyiv date ("YYYY-MM-DD") → compressed day schedule */
+	groups: Record<string, Record<string, DaySchedule>>;
+	/**
+	 * Display names from preset.sch_names: groupId → name (e.g., "Черга 1.1")
+	 * Absent in data extracted before names were stored.
+	 */
+	names?: Record<string, string>;
+}
+
+/**
+ * Cookie with the attributes needed to honour expiry and scoping (RFC 6265).
+ * Stored in DtekCachedRegion.cookies.
+ */
+export interface StoredCookie {
+	name: string;
+	value: string;
+
+	/** Domain attribute without leading dot (absent = host-only) */
+	domain?: string;
 
-	/** Day of week for tomorrow: "1" = Monday, "7" = Sunday */
-	tomorrowDayOfWeek: string;
+	/** Path attribute (defaults to "/") */
+	path: string;
 
-	/** Schedule groups: groupId → { today, tomorrow } with compressed ranges */
-	groups: Record<
-		string,
-		{
-			today: ScheduleRange[];
-			tomorrow: ScheduleRange[];
-		}
-	>;
+	/** Expiry in ms since epoch, from Max-Age or Expires (absent = session cookie) */
+	expiresAt?: number;
+
+	secure?: boolean;
+	httpOnly?: boolean;
+	sameSite?: string;
 }
 
 /**
@@ -104,8 +159,14 @@ export interface DtekCachedRegion {
 	/** CSRF token for authenticated requests */
 	csrf: string;
 
-	/** Session cookies as semicolon-separated string (e.g., "name=val; name2=val2") */
-	cookies: string;
+	/**
+	 * Session cookies with their attributes.
+	 * Entries written before cookie metadata was stored hold a "name=val; name2=val2" string.
+	 */
+	cookies: StoredCookie[] | string;
+
+	/** ISO timestamp when the first session cookie expires (null/absent = unknown) */
+	sessionExpiresAt?: string | null;
 
 	/** Last data update timestamp from DTEK (e.g., "31.12.2025 14:24") */
 	updateFact: string;
@@ -116,13 +177,92 @@ export interface DtekCachedRegion {
 	/** Streets indexed by city name */
 	streetsByCity: Record<string, string[]>;
 
-	/** Pre-computed schedule data for today/tomorrow (resolved from fact or preset) */
+	/** Pre-computed weekly schedule data (resolved from fact and preset) */
 	scheduleData: ScheduleData | null;
 
 	/** ISO timestamp when this data was extracted */
 	extractedAt: string;
 }
 
+/**
+ * Building statuses for one street, shared by all app instances.
+ * Stored in Redis at key: dtek:status:{region}:{hash}
+ */
+export interface DtekCachedStatus {
+	/** DTEK response with naturally sorted building keys */
+	response: DtekStatusResponse;
+
+	/** When DTEK returned this response (ms since epoch) */
+	fetchedAt: number;
+}
+
+/**
+ * One set of DTEK credentials (CSRF token + cookie jar) in a region's session pool.
+ */
+export interface DtekSession {
+	/** Short random identifier, used as the prefix of the session's health counters */
+	id: string;
+
+	/** CSRF token for authenticated requests */
+	csrf: string;
+
+	/** Session cookies (legacy "name=val; name2=val2" string for pre-pool entries) */
+	cookies: StoredCookie[] | string;
+
+	/** ISO timestamp when the first session cookie expires (null/absent = unknown) */
+	sessionExpiresAt?: string | null;
+
+	/** ISO timestamp when the session was minted */
+	createdAt: string;
+}
+
+/**
+ * Sessions the app rotates through for live status requests.
+ * Stored in Redis at key: dtek:sessions:{region}
+ */
+export interface DtekSessionPool {
+	sessions: DtekSession[];
+
+	/** ISO timestamp of the last change to the pool */
+	updatedAt: string;
+}
+
+/**
+ * Health counters for one pooled session, shared by all app instances.
+ * Stored as fields "{id}:{counter}" of the hash at key: dtek:sessions:{region}:stats
+ */
+export interface DtekSessionStats {
+	/** Requests DTEK accepted */
+	successes: number;
+
+	/** Requests DTEK rejected with a session error */
+	rejections: number;
+
+	/** Rejections since the last success */
+	consecutiveRejections: number;
+
+	/** Until when the session is out of rotation (ms since epoch, null = never quarantined) */
+	quarantinedUntil: number | null;
+}
+
+/**
+ * Per-region statistics from the refresh script.
+ * Kept across runs, so single-region runs don't erase other regions' history.
+ */
+export interface DtekRegionRefreshStats {
+	/** ISO timestamp of the last extraction attempt */
+	lastAttempt: string;
+
+	/** ISO timestamp of the last successful extraction (null if never succeeded) */
+	lastSuccess: string | null;
+
+	/** Wall-clock duration of the last extraction, including retries */
+	durationMs: number;
+
+	/** Number of attempts made in the last extraction */
+	attempts: number;
+}
+
 /**
  * Metadata about the last refresh operation.
  * Stored in Redis at key: dtek:meta
@@ -134,8 +274,53 @@ export interface DtekCacheMeta {
 	/** Regions that were successfully updated */
 	regionsUpdated: DtekRegion[];
 
-	/** Error messages for regions that failed */
+	/** Error messages for regions that failed on their last attempt */
 	errors: Partial<Record<DtekRegion, string>>;
+
+	/** Per-region duration/attempt statistics */
+	regions: Partial<Record<DtekRegion, DtekRegionRefreshStats>>;
+}
+
+// -----------------------------------------------------------------------------
+// Session Cookies
+// -----------------------------------------------------------------------------
+
+/**
+ * Check whether a cookie belongs to the DTEK session (sent with AJAX requests):
+ * dtek-{region}, _csrf-dtek-{region}, _language and Incapsula visid_incap_*, incap_ses_*, incap_wrt_*
+ */
+export function isDtekSessionCookie(name: string, region: string): boolean {
+	return new RegExp(
+		`^(dtek-${region}|_csrf-dtek-${region}|_language|visid_incap_|incap_ses_|incap_wrt_)`
+	).test(name);
+}
+
+/**
+ * Get when the session stops being valid: the earliest expiry among session cookies
+ * Incapsula's incap_ses_* cookies are typically the first to go.
+ * @returns Expiry in ms since epoch, or null when no session cookie expires
+ */
+export function getSessionExpiresAt(cookies: StoredCookie[], region: string): number | null {
+	let earliest: number | null = null;
+	for (const cookie of cookies) {
+		if (cookie.expiresAt === undefined || !isDtekSessionCookie(cookie.name, region)) continue;
+		if (earliest === null || cookie.expiresAt < earliest) earliest = cookie.expiresAt;
+	}
+	return earliest;
+}
+
+/**
+ * Take the credentials of a region entry as a pooled session
+ * Used for the first session of a fresh pool and for regions without a pool yet.
+ */
+export function sessionFromRegion(data: DtekCachedRegion, id: string): DtekSession {
+	return {
+		id,
+		csrf: data.csrf,
+		cookies: data.cookies,
+		sessionExpiresAt: data.sessionExpiresAt ?? null,
+		createdAt: data.extractedAt,
+	};
 }
 
 // -----------------------------------------------------------------------------
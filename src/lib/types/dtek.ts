@@ -1,3 +1,5 @@
+import type { ScheduleData } from './dtek-cache.js';
+
 /**
  * Schedule status values from DisconSchedule.preset
  */
@@ -14,6 +16,21 @@ export interface ScheduleRange {
 	status: ScheduleStatus;
 }
 
+/**
+ * Where a day's schedule comes from:
+ * - fact: actual schedule published by DTEK (DisconSchedule.fact)
+ * - preset: weekly forecast (DisconSchedule.preset)
+ */
+export type ScheduleSource = 'fact' | 'preset';
+
+/**
+ * Compressed schedule for a single day with its source
+ */
+export interface DaySchedule {
+	ranges: ScheduleRange[];
+	source: ScheduleSource;
+}
+
 /**
  * Raw preset structure from DisconSchedule.preset
  */
@@ -24,10 +41,10 @@ export interface DtekRawPreset {
 }
 
 /**
- * Processed schedules: groupId → day → ranges
- * Days: "1" = Monday, "7" = Sunday
+ * Processed schedules: groupId → date → schedule
+ * Dates: Kyiv calendar date "YYYY-MM-DD"
  */
-export type ProcessedSchedules = Record<string, Record<string, ScheduleRange[]>>;
+export type ProcessedSchedules = Record<string, Record<string, DaySchedule>>;
 
 /**
  * Raw DTEK API response for getHomeNum - status for a single building
@@ -58,6 +75,28 @@ export interface DtekStatusResponse {
 	result: boolean;
 	/** Map of building number to status */
 	data: Record<string, DtekBuildingStatus>;
+	/** When the data DTEK answered from was updated: "14:24 17.12.2025" */
+	updateTimestamp?: string;
+}
+
+/**
+ * Where building statuses were served from:
+ * - hit: fresh cached response (memory or Redis)
+ * - stale: older cached response, served while being revalidated in the background
+ * - miss: fetched from DTEK for this request
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+/**
+ * Building statuses served by DtekService, with when they came from DTEK
+ */
+export interface FetchedStatus {
+	response: DtekStatusResponse;
+	/** When DTEK returned this response (ms since epoch) */
+	fetchedAt: number;
+	/** True when DTEK could not be queried and last-known data was served instead */
+	stale: boolean;
+	cacheStatus: CacheStatus;
 }
 
 /**
@@ -72,8 +111,8 @@ export interface DtekTemplateData {
 	cities: string[];
 	/** Map of city name to array of street names */
 	streetsByCity: Record<string, string[]>;
-	/** Processed schedules from DisconSchedule.preset (optional) */
-	schedules?: ProcessedSchedules;
+	/** Compressed schedules resolved from DisconSchedule.fact/preset (null if preset missing) */
+	scheduleData: ScheduleData | null;
 }
 
 /**
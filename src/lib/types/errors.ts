@@ -54,13 +54,66 @@ export interface ValidationError extends DtekErrorBase {
 }
 
 /**
- * Region unavailable error (bot protection, service blocked)
+ * Region unavailable error (bot protection, service blocked, circuit open)
  */
 export interface RegionUnavailableError extends DtekErrorBase {
 	readonly code: 'REGION_UNAVAILABLE';
 	readonly region?: string;
 }
 
+/**
+ * Outbound rate limit errors (request could not get a slot to DTEK in time)
+ */
+export interface RateLimitedError extends DtekErrorBase {
+	readonly code: 'RATE_LIMITED';
+	readonly reason: 'queue_full' | 'queue_timeout';
+	/** Suggested wait before the caller tries again */
+	readonly retryAfterMs: number;
+	readonly region?: string;
+}
+
+/**
+ * Bot protection errors (Incapsula answered with a challenge instead of DTEK's response)
+ */
+export interface BlockedError extends DtekErrorBase {
+	readonly code: 'BLOCKED';
+	readonly reason: 'challenge' | 'captcha' | 'too_many_requests';
+	readonly httpStatus?: number;
+	readonly region?: string;
+	/** Incapsula incident ID from the challenge page, for support requests */
+	readonly incidentId?: string;
+}
+
+/**
+ * DTEK answered, but not with usable building statuses
+ * (result:false, no buildings for a street it lists, data older than the page's updateFact)
+ */
+export interface UpstreamRejectedError extends DtekErrorBase {
+	readonly code: 'UPSTREAM_REJECTED';
+	readonly reason: 'result_false' | 'empty_data' | 'update_mismatch';
+	readonly region?: string;
+	/** updateFact sent with the request */
+	readonly updateFact?: string;
+	/** updateTimestamp DTEK answered with */
+	readonly updateTimestamp?: string;
+}
+
+/**
+ * Requested city, street or schedule group is not in the cached DTEK data,
+ * or DTEK doesn't list the building on the street
+ */
+export interface NotFoundError extends DtekErrorBase {
+	readonly code: 'CITY_NOT_FOUND' | 'STREET_NOT_FOUND' | 'BUILDING_NOT_FOUND' | 'GROUP_NOT_FOUND';
+	/** Absent for GROUP_NOT_FOUND */
+	readonly city?: string;
+	readonly street?: string;
+	readonly building?: string;
+	readonly group?: string;
+	readonly region?: string;
+	/** Closest known names, best first */
+	readonly suggestions: string[];
+}
+
 /**
  * KV/Redis cache errors
  */
@@ -77,6 +130,10 @@ export type DtekError =
 	| SessionError
 	| ValidationError
 	| RegionUnavailableError
+	| RateLimitedError
+	| BlockedError
+	| UpstreamRejectedError
+	| NotFoundError
 	| KvError;
 
 /**
@@ -123,6 +180,153 @@ export const parseError = (
 	...opts,
 });
 
+/**
+ * Create a SessionError
+ */
+export const sessionError = (
+	reason: SessionError['reason'],
+	message: string,
+	opts?: Partial<Omit<SessionError, 'code' | 'reason' | 'message' | 'timestamp'>>
+): SessionError => ({
+	code: 'SESSION_ERROR',
+	reason,
+	message,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a RegionUnavailableError
+ */
+export const regionUnavailableError = (
+	message: string,
+	opts?: Partial<Omit<RegionUnavailableError, 'code' | 'message' | 'timestamp'>>
+): RegionUnavailableError => ({
+	code: 'REGION_UNAVAILABLE',
+	message,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a RateLimitedError
+ */
+export const rateLimitedError = (
+	reason: RateLimitedError['reason'],
+	message: string,
+	retryAfterMs: number,
+	opts?: Partial<
+		Omit<RateLimitedError, 'code' | 'reason' | 'message' | 'retryAfterMs' | 'timestamp'>
+	>
+): RateLimitedError => ({
+	code: 'RATE_LIMITED',
+	reason,
+	message,
+	retryAfterMs,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a BlockedError
+ */
+export const blockedError = (
+	reason: BlockedError['reason'],
+	message: string,
+	opts?: Partial<Omit<BlockedError, 'code' | 'reason' | 'message' | 'timestamp'>>
+): BlockedError => ({
+	code: 'BLOCKED',
+	reason,
+	message,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create an UpstreamRejectedError
+ */
+export const upstreamRejectedError = (
+	reason: UpstreamRejectedError['reason'],
+	message: string,
+	opts?: Partial<Omit<UpstreamRejectedError, 'code' | 'reason' | 'message' | 'timestamp'>>
+): UpstreamRejectedError => ({
+	code: 'UPSTREAM_REJECTED',
+	reason,
+	message,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a NotFoundError for an unknown city
+ */
+export const cityNotFoundError = (
+	city: string,
+	suggestions: string[],
+	opts?: Partial<Pick<NotFoundError, 'region'>>
+): NotFoundError => ({
+	code: 'CITY_NOT_FOUND',
+	message: `Unknown city: ${city}`,
+	city,
+	suggestions,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a NotFoundError for an unknown street in a known city
+ */
+export const streetNotFoundError = (
+	city: string,
+	street: string,
+	suggestions: string[],
+	opts?: Partial<Pick<NotFoundError, 'region'>>
+): NotFoundError => ({
+	code: 'STREET_NOT_FOUND',
+	message: `Unknown street in ${city}: ${street}`,
+	city,
+	street,
+	suggestions,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a NotFoundError for a building DTEK doesn't list on a known street
+ */
+export const buildingNotFoundError = (
+	city: string,
+	street: string,
+	building: string,
+	suggestions: string[],
+	opts?: Partial<Pick<NotFoundError, 'region'>>
+): NotFoundError => ({
+	code: 'BUILDING_NOT_FOUND',
+	message: `Unknown building on ${city} / ${street}: ${building}`,
+	city,
+	street,
+	building,
+	suggestions,
+	timestamp: Date.now(),
+	...opts,
+});
+
+/**
+ * Create a NotFoundError for a schedule group the region doesn't have
+ */
+export const groupNotFoundError = (
+	group: string,
+	suggestions: string[],
+	opts?: Partial<Pick<NotFoundError, 'region'>>
+): NotFoundError => ({
+	code: 'GROUP_NOT_FOUND',
+	message: `Unknown schedule group: ${group}`,
+	group,
+	suggestions,
+	timestamp: Date.now(),
+	...opts,
+});
+
 /**
  * Create a KvError
  */
@@ -152,6 +356,18 @@ export const errorToHttpStatus = (error: DtekError): number => {
 			return 400;
 		case 'REGION_UNAVAILABLE':
 			return 503; // Service Unavailable - region blocked by bot protection
+		case 'RATE_LIMITED':
+			// Too Many Requests when the queue is full, Service Unavailable when the wait timed out
+			return error.reason === 'queue_full' ? 429 : 503;
+		case 'BLOCKED':
+			return 503; // Service Unavailable - DTEK's bot protection is refusing our requests
+		case 'UPSTREAM_REJECTED':
+			return 502; // Bad Gateway - DTEK answered without usable data
+		case 'CITY_NOT_FOUND':
+		case 'STREET_NOT_FOUND':
+		case 'BUILDING_NOT_FOUND':
+		case 'GROUP_NOT_FOUND':
+			return 404;
 		case 'KV_ERROR':
 			return 503; // Service Unavailable - cache not populated
 		default:
@@ -174,6 +390,20 @@ export const errorToUserMessage = (error: DtekError): string => {
 			return 'Невірні параметри запиту';
 		case 'REGION_UNAVAILABLE':
 			return 'Регіон тимчасово недоступний';
+		case 'RATE_LIMITED':
+			return 'Забагато запитів до ДТЕК, спробуйте трохи пізніше';
+		case 'BLOCKED':
+			return 'ДТЕК тимчасово блокує запити, спробуйте пізніше';
+		case 'UPSTREAM_REJECTED':
+			return 'ДТЕК не повернув дані для цієї адреси, спробуйте трохи пізніше';
+		case 'CITY_NOT_FOUND':
+			return 'Населений пункт не знайдено';
+		case 'STREET_NOT_FOUND':
+			return 'Вулицю не знайдено';
+		case 'BUILDING_NOT_FOUND':
+			return 'Будинок не знайдено';
+		case 'GROUP_NOT_FOUND':
+			return 'Чергу не знайдено';
 		case 'KV_ERROR':
 			return 'Дані тимчасово недоступні';
 		default:
@@ -198,6 +428,17 @@ export const formatErrorForLog = (error: DtekError): string => {
 			return `${base} (field: ${error.field}, constraint: ${error.constraint})`;
 		case 'REGION_UNAVAILABLE':
 			return `${base} (region: ${error.region ?? 'N/A'})`;
+		case 'RATE_LIMITED':
+			return `${base} (reason: ${error.reason}, region: ${error.region ?? 'N/A'}, retryAfter: ${error.retryAfterMs}ms)`;
+		case 'BLOCKED':
+			return `${base} (reason: ${error.reason}, region: ${error.region ?? 'N/A'}, status: ${error.httpStatus ?? 'N/A'}, incident: ${error.incidentId ?? 'N/A'})`;
+		case 'UPSTREAM_REJECTED':
+			return `${base} (reason: ${error.reason}, region: ${error.region ?? 'N/A'}, updateFact: ${error.updateFact ?? 'N/A'}, updateTimestamp: ${error.updateTimestamp ?? 'N/A'})`;
+		case 'CITY_NOT_FOUND':
+		case 'STREET_NOT_FOUND':
+		case 'BUILDING_NOT_FOUND':
+		case 'GROUP_NOT_FOUND':
+			return `${base} (region: ${error.region ?? 'N/A'}, suggestions: ${error.suggestions.join(' | ') || 'none'})`;
 		case 'KV_ERROR':
 			return base;
 		default:
@@ -216,7 +457,8 @@ export type ApiErrorCode =
 	| 'NETWORK_ERROR'
 	| 'VALIDATION_ERROR'
 	| 'SERVER_ERROR'
-	| 'REGION_UNAVAILABLE';
+	| 'REGION_UNAVAILABLE'
+	| 'NOT_FOUND';
 
 /**
  * Simplified error type for client-side API calls
@@ -226,6 +468,8 @@ export interface ApiError {
 	readonly message: string;
 	readonly httpStatus?: number;
 	readonly fieldErrors?: FieldError[];
+	/** Closest known names for NOT_FOUND */
+	readonly suggestions?: string[];
 }
 
 /**
@@ -235,10 +479,12 @@ export const apiError = (
 	code: ApiErrorCode,
 	message: string,
 	httpStatus?: number,
-	fieldErrors?: FieldError[]
+	fieldErrors?: FieldError[],
+	suggestions?: string[]
 ): ApiError => ({
 	code,
 	message,
 	httpStatus,
 	fieldErrors,
+	...(suggestions && { suggestions }),
 });
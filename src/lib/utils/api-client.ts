@@ -5,7 +5,17 @@
  * Uses Result pattern for explicit error handling instead of throwing exceptions.
  */
 
-import type { CitiesResponse, StreetsResponse, StatusResponse } from '$lib/types/address';
+import type {
+	CitiesResponse,
+	StreetsResponse,
+	StatusResponse,
+	BatchStatusAddress,
+	BatchStatusResponse,
+	GroupsResponse,
+	GroupScheduleResponse,
+	ScheduleGroup,
+	HealthResponse,
+} from '$lib/types/address';
 import type { Result } from '$lib/types/result';
 import type { ApiError, FieldError } from '$lib/types/errors';
 import { ok, err } from '$lib/types/result';
@@ -20,6 +30,7 @@ interface ApiErrorResponse {
 	error?: string;
 	message?: string;
 	errors?: Array<{ field: string; code: string; message: string }>;
+	suggestions?: string[];
 }
 
 /**
@@ -27,18 +38,45 @@ interface ApiErrorResponse {
  */
 async function parseErrorResponse(
 	response: Response
-): Promise<{ errorCode?: string; fieldErrors?: FieldError[] }> {
+): Promise<{ errorCode?: string; fieldErrors?: FieldError[]; suggestions?: string[] }> {
 	try {
 		const data: ApiErrorResponse = await response.json();
 		return {
 			errorCode: data.error,
 			fieldErrors: data.errors,
+			suggestions: data.suggestions,
 		};
 	} catch {
 		return {};
 	}
 }
 
+/**
+ * Check whether the API rejected an address that is not in DTEK's directory
+ */
+function isNotFoundCode(errorCode: string | undefined): boolean {
+	return (
+		errorCode === 'CITY_NOT_FOUND' ||
+		errorCode === 'STREET_NOT_FOUND' ||
+		errorCode === 'BUILDING_NOT_FOUND'
+	);
+}
+
+/**
+ * Build the error for an unknown address or group, naming the closest known ones
+ */
+function notFoundError(
+	httpStatus: number,
+	suggestions: string[] = [],
+	notFoundMessage: string = UI_TEXT.addressNotFound
+): ApiError {
+	const message =
+		suggestions.length > 0
+			? `${notFoundMessage}. ${UI_TEXT.didYouMean}: ${suggestions.join(', ')}?`
+			: notFoundMessage;
+	return apiError('NOT_FOUND', message, httpStatus, undefined, suggestions);
+}
+
 /**
  * Fetch all available cities from DTEK API for a specific region
  * @param region - Region code (e.g., 'kem', 'oem')
@@ -102,7 +140,10 @@ export async function fetchStreets(
 
 		if (!response.ok) {
 			console.error('[API Client] fetchStreets failed: HTTP', response.status);
-			const { errorCode, fieldErrors } = await parseErrorResponse(response);
+			const { errorCode, fieldErrors, suggestions } = await parseErrorResponse(response);
+			if (isNotFoundCode(errorCode)) {
+				return err(notFoundError(response.status, suggestions));
+			}
 			if (response.status === 400 || errorCode === 'VALIDATION_ERROR') {
 				return err(
 					apiError('VALIDATION_ERROR', UI_TEXT.invalidParams, response.status, fieldErrors)
@@ -154,7 +195,10 @@ export async function fetchBuildingStatuses(
 
 		if (!response.ok) {
 			console.error('[API Client] fetchBuildingStatuses failed: HTTP', response.status);
-			const { errorCode, fieldErrors } = await parseErrorResponse(response);
+			const { errorCode, fieldErrors, suggestions } = await parseErrorResponse(response);
+			if (isNotFoundCode(errorCode)) {
+				return err(notFoundError(response.status, suggestions));
+			}
 			if (response.status === 400 || errorCode === 'VALIDATION_ERROR') {
 				return err(
 					apiError('VALIDATION_ERROR', UI_TEXT.invalidParams, response.status, fieldErrors)
@@ -180,3 +224,157 @@ export async function fetchBuildingStatuses(
 		return err(apiError('NETWORK_ERROR', UI_TEXT.dtekUnavailable));
 	}
 }
+
+/**
+ * Fetch statuses for several addresses in one request
+ * Each result reports its own failure, so one bad address doesn't fail the rest.
+ * @param addresses - Addresses with the building to report
+ * @returns Result with BatchStatusResponse (results in request order) or ApiError
+ */
+export async function fetchBatchStatuses(
+	addresses: BatchStatusAddress[]
+): Promise<Result<BatchStatusResponse, ApiError>> {
+	try {
+		const response = await fetch('/api/status/batch', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ addresses }),
+		});
+
+		if (!response.ok) {
+			console.error('[API Client] fetchBatchStatuses failed: HTTP', response.status);
+			const { errorCode, fieldErrors } = await parseErrorResponse(response);
+			if (response.status === 400 || errorCode === 'VALIDATION_ERROR') {
+				return err(
+					apiError('VALIDATION_ERROR', UI_TEXT.invalidParams, response.status, fieldErrors)
+				);
+			}
+			return err(apiError('SERVER_ERROR', UI_TEXT.dtekUnavailable, response.status, fieldErrors));
+		}
+
+		const data: BatchStatusResponse = await response.json();
+
+		// Validate response structure
+		if (!Array.isArray(data.results) || data.results.length !== addresses.length) {
+			console.error('[API Client] fetchBatchStatuses: invalid response structure');
+			return err(apiError('VALIDATION_ERROR', UI_TEXT.invalidApiResponse));
+		}
+
+		return ok(data);
+	} catch (error) {
+		console.error('[API Client] fetchBatchStatuses failed:', error);
+		if (error instanceof TypeError && error.message.includes('fetch')) {
+			return err(apiError('NETWORK_ERROR', UI_TEXT.networkError));
+		}
+		return err(apiError('NETWORK_ERROR', UI_TEXT.dtekUnavailable));
+	}
+}
+
+/**
+ * Fetch the schedule groups (queues) of a region
+ * @param region - Region code (e.g., 'kem', 'oem')
+ * @returns Result with groups in natural order or ApiError
+ */
+export async function fetchGroups(region: RegionCode): Promise<Result<ScheduleGroup[], ApiError>> {
+	try {
+		const response = await fetch(`/api/groups?region=${encodeURIComponent(region)}`);
+
+		if (!response.ok) {
+			console.error('[API Client] fetchGroups failed: HTTP', response.status);
+			const { errorCode, fieldErrors } = await parseErrorResponse(response);
+			if (response.status === 400 || errorCode === 'VALIDATION_ERROR') {
+				return err(
+					apiError('VALIDATION_ERROR', UI_TEXT.invalidParams, response.status, fieldErrors)
+				);
+			}
+			return err(apiError('SERVER_ERROR', UI_TEXT.dtekUnavailable, response.status, fieldErrors));
+		}
+
+		const data: GroupsResponse = await response.json();
+
+		if (!Array.isArray(data.groups)) {
+			console.error('[API Client] fetchGroups: invalid response structure');
+			return err(apiError('VALIDATION_ERROR', UI_TEXT.invalidApiResponse));
+		}
+
+		return ok(data.groups);
+	} catch (error) {
+		console.error('[API Client] fetchGroups failed:', error);
+		if (error instanceof TypeError && error.message.includes('fetch')) {
+			return err(apiError('NETWORK_ERROR', UI_TEXT.networkError));
+		}
+		return err(apiError('NETWORK_ERROR', UI_TEXT.dtekUnavailable));
+	}
+}
+
+/**
+ * Fetch the weekly schedule of one group
+ * @param region - Region code (e.g., 'kem', 'oem')
+ * @param group - Group ID (e.g., 'GPV3.1')
+ * @returns Result with GroupScheduleResponse or ApiError
+ */
+export async function fetchGroupSchedule(
+	region: RegionCode,
+	group: string
+): Promise<Result<GroupScheduleResponse, ApiError>> {
+	try {
+		const url = `/api/schedule?region=${encodeURIComponent(region)}&group=${encodeURIComponent(group)}`;
+		const response = await fetch(url);
+
+		if (!response.ok) {
+			console.error('[API Client] fetchGroupSchedule failed: HTTP', response.status);
+			const { errorCode, fieldErrors, suggestions } = await parseErrorResponse(response);
+			if (errorCode === 'GROUP_NOT_FOUND') {
+				return err(notFoundError(response.status, suggestions, UI_TEXT.groupNotFound));
+			}
+			if (response.status === 400 || errorCode === 'VALIDATION_ERROR') {
+				return err(
+					apiError('VALIDATION_ERROR', UI_TEXT.invalidParams, response.status, fieldErrors)
+				);
+			}
+			return err(apiError('SERVER_ERROR', UI_TEXT.dtekUnavailable, response.status, fieldErrors));
+		}
+
+		const data: GroupScheduleResponse = await response.json();
+
+		if (!data.group || typeof data.schedule !== 'object') {
+			console.error('[API Client] fetchGroupSchedule: invalid response structure');
+			return err(apiError('VALIDATION_ERROR', UI_TEXT.invalidApiResponse));
+		}
+
+		return ok(data);
+	} catch (error) {
+		console.error('[API Client] fetchGroupSchedule failed:', error);
+		if (error instanceof TypeError && error.message.includes('fetch')) {
+			return err(apiError('NETWORK_ERROR', UI_TEXT.networkError));
+		}
+		return err(apiError('NETWORK_ERROR', UI_TEXT.dtekUnavailable));
+	}
+}
+
+/**
+ * Fetch data freshness for all regions
+ * @returns Result with HealthResponse or ApiError
+ */
+export async function fetchHealth(): Promise<Result<HealthResponse, ApiError>> {
+	try {
+		const response = await fetch('/api/health');
+
+		if (!response.ok) {
+			console.error('[API Client] fetchHealth failed: HTTP', response.status);
+			return err(apiError('SERVER_ERROR', UI_TEXT.dtekUnavailable, response.status));
+		}
+
+		const data: HealthResponse = await response.json();
+
+		if (!Array.isArray(data.regions)) {
+			console.error('[API Client] fetchHealth: invalid response structure');
+			return err(apiError('VALIDATION_ERROR', UI_TEXT.invalidApiResponse));
+		}
+
+		return ok(data);
+	} catch (error) {
+		console.error('[API Client] fetchHealth failed:', error);
+		return err(apiError('NETWORK_ERROR', UI_TEXT.networkError));
+	}
+}
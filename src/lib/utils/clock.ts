@@ -0,0 +1,50 @@
+/**
+ * Clock abstraction
+ *
+ * Time-dependent code takes a Clock (defaulting to appClock) instead of calling
+ * `new Date()`/`Date.now()` directly, so tests can freeze time and QA can shift
+ * the whole UI to a given instant (see stores/clock.ts for the `?now=` override).
+ *
+ * Shared by the refresh script and the app, so it has no `$lib` imports.
+ */
+
+/**
+ * Source of the current instant
+ */
+export interface Clock {
+	now(): Date;
+}
+
+/** Clock backed by the system time */
+export const systemClock: Clock = {
+	now: () => new Date(),
+};
+
+/** Clock frozen at a fixed instant */
+export function fixedClock(instant: Date | string | number): Clock {
+	const time = new Date(instant).getTime();
+	return { now: () => new Date(time) };
+}
+
+/** Clock that starts at the given instant and keeps ticking in real time */
+export function shiftedClock(instant: Date, base: Clock = systemClock): Clock {
+	const offsetMs = instant.getTime() - base.now().getTime();
+	return { now: () => new Date(base.now().getTime() + offsetMs) };
+}
+
+let activeClock: Clock = systemClock;
+
+/**
+ * Application-wide clock used as the default by time-dependent utilities
+ * Delegates to the system clock unless overridden with setAppClock.
+ */
+export const appClock: Clock = {
+	now: () => activeClock.now(),
+};
+
+/**
+ * Override the application clock (pass null to restore system time)
+ */
+export function setAppClock(clock: Clock | null): void {
+	activeClock = clock ?? systemClock;
+}
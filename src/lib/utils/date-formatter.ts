@@ -1,11 +1,13 @@
 import { UI_TEXT } from '$lib/constants/ui-text';
+import { toKyivDateTime } from './kyiv-time';
+import { appClock, type Clock } from './clock';
 
 /**
  * Format a timestamp as relative time in Ukrainian
  * Examples: "щойно", "5 хв тому", "2 год тому", "вчора", "3 дн тому"
  */
-export function formatRelativeTime(timestamp: number): string {
-	const now = Date.now();
+export function formatRelativeTime(timestamp: number, clock: Clock = appClock): string {
+	const now = clock.now().getTime();
 	const diffMs = now - timestamp;
 	const diffSeconds = Math.floor(diffMs / 1000);
 	const diffMinutes = Math.floor(diffSeconds / 60);
@@ -35,52 +37,52 @@ export function formatRelativeTime(timestamp: number): string {
 }
 
 /**
- * Parse DTEK date format "14:30 17.12.2025" to Date object
- * Format: "HH:MM DD.MM.YYYY"
+ * Format how outdated last-known data is, in Ukrainian
+ * Examples: "дані застаріли 5 хв", "дані застаріли 2 год", "дані застаріли 3 дн"
  */
-export function parseDtekDate(dateString: string): Date {
-	// Example: "14:30 17.12.2025"
-	const parts = dateString.trim().split(' ');
-	if (parts.length !== 2) {
-		throw new Error(`Invalid DTEK date format: ${dateString}`);
+export function formatStaleAge(timestamp: number, clock: Clock = appClock): string {
+	const diffMinutes = Math.max(1, Math.floor((clock.now().getTime() - timestamp) / 60000));
+	const diffHours = Math.floor(diffMinutes / 60);
+	const diffDays = Math.floor(diffHours / 24);
+
+	if (diffMinutes < 60) {
+		return `${UI_TEXT.staleStatus} ${diffMinutes} ${UI_TEXT.time.minutes}`;
+	} else if (diffHours < 24) {
+		return `${UI_TEXT.staleStatus} ${diffHours} ${UI_TEXT.time.hours}`;
 	}
+	return `${UI_TEXT.staleStatus} ${diffDays} ${UI_TEXT.time.days}`;
+}
 
-	const [time, date] = parts;
-	const [hours, minutes] = time.split(':').map(Number);
-	const [day, month, year] = date.split('.').map(Number);
+/**
+ * Format time left until an instant, in Ukrainian
+ * Examples: "45 хв", "2 год 15 хв", "1 дн 3 год"
+ */
+export function formatCountdown(timestamp: number, clock: Clock = appClock): string {
+	const totalMinutes = Math.max(1, Math.ceil((timestamp - clock.now().getTime()) / 60000));
+	const minutes = totalMinutes % 60;
+	const hours = Math.floor(totalMinutes / 60) % 24;
+	const days = Math.floor(totalMinutes / (24 * 60));
 
-	// Validate parsed values
-	if (
-		isNaN(hours) ||
-		isNaN(minutes) ||
-		isNaN(day) ||
-		isNaN(month) ||
-		isNaN(year) ||
-		hours < 0 ||
-		hours > 23 ||
-		minutes < 0 ||
-		minutes > 59 ||
-		day < 1 ||
-		day > 31 ||
-		month < 1 ||
-		month > 12
-	) {
-		throw new Error(`Invalid date values in: ${dateString}`);
+	if (days > 0) {
+		return hours > 0
+			? `${days} ${UI_TEXT.time.days} ${hours} ${UI_TEXT.time.hours}`
+			: `${days} ${UI_TEXT.time.days}`;
+	} else if (hours > 0) {
+		return minutes > 0
+			? `${hours} ${UI_TEXT.time.hours} ${minutes} ${UI_TEXT.time.minutes}`
+			: `${hours} ${UI_TEXT.time.hours}`;
 	}
-
-	// Month is 0-indexed in JavaScript Date
-	return new Date(year, month - 1, day, hours, minutes);
+	return `${minutes} ${UI_TEXT.time.minutes}`;
 }
 
 /**
- * Format Date object to Ukrainian format: "17 грудня 2025, 14:30"
+ * Format Date object to Ukrainian format in Kyiv time: "17 грудня 2025, 14:30"
  */
 export function formatUkrainianDate(date: Date): string {
-	const day = date.getDate();
-	const month = UI_TEXT.months.genitive[date.getMonth()];
-	const year = date.getFullYear();
-	const hours = date.getHours().toString().padStart(2, '0');
-	const minutes = date.getMinutes().toString().padStart(2, '0');
+	const kyiv = toKyivDateTime(date);
+	const month = UI_TEXT.months.genitive[kyiv.month - 1];
+	const hours = kyiv.hours.toString().padStart(2, '0');
+	const minutes = kyiv.minutes.toString().padStart(2, '0');
 
-	return `${day} ${month} ${year}, ${hours}:${minutes}`;
+	return `${kyiv.day} ${month} ${kyiv.year}, ${hours}:${minutes}`;
 }
@@ -0,0 +1,252 @@
+/**
+ * Kyiv time utilities
+ *
+ * DTEK publishes everything in Kyiv local time (schedules, outage ranges, fact days),
+ * while servers run in UTC and browsers in whatever zone the user is in. All Kyiv
+ * calendar/clock conversions go through this module so they agree with each other
+ * and handle DST (last Sunday of March / October) the same way.
+ *
+ * Shared by the refresh script and the app, so it has no `$lib` imports.
+ */
+
+import { appClock, type Clock } from './clock';
+
+export const KYIV_TIME_ZONE = 'Europe/Kyiv';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// =============================================================================
+// Kyiv Wall Clock
+// =============================================================================
+
+/**
+ * Wall-clock fields of an instant in Kyiv
+ */
+export interface KyivDateTime {
+	year: number;
+	/** 1-12 */
+	month: number;
+	/** 1-31 */
+	day: number;
+	/** 0-23 */
+	hours: number;
+	minutes: number;
+	seconds: number;
+	/** ISO day of week: 1=Monday, 7=Sunday */
+	dayOfWeek: number;
+}
+
+const kyivFormatter = new Intl.DateTimeFormat('en-US', {
+	timeZone: KYIV_TIME_ZONE,
+	hourCycle: 'h23',
+	year: 'numeric',
+	month: 'numeric',
+	day: 'numeric',
+	hour: 'numeric',
+	minute: 'numeric',
+	second: 'numeric',
+	weekday: 'short',
+});
+
+const WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+/**
+ * Get Kyiv wall-clock fields for an instant
+ */
+export function toKyivDateTime(date: Date): KyivDateTime {
+	const parts: Record<string, string> = {};
+	for (const { type, value } of kyivFormatter.formatToParts(date)) {
+		parts[type] = value;
+	}
+
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hours: Number(parts.hour),
+		minutes: Number(parts.minute),
+		seconds: Number(parts.second),
+		dayOfWeek: WEEKDAYS[parts.weekday],
+	};
+}
+
+/**
+ * Current Kyiv wall-clock fields
+ */
+export function kyivNow(clock: Clock = appClock): KyivDateTime {
+	return toKyivDateTime(clock.now());
+}
+
+/**
+ * Kyiv UTC offset in minutes at the given instant (+120 in winter, +180 in summer)
+ */
+export function getKyivOffsetMinutes(date: Date): number {
+	const k = toKyivDateTime(date);
+	const wallAsUtc = Date.UTC(k.year, k.month - 1, k.day, k.hours, k.minutes, k.seconds);
+	return Math.round((wallAsUtc - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Convert a Kyiv wall-clock time to an absolute instant
+ *
+ * DST edge cases:
+ * - Times skipped in March (03:00-03:59) resolve to the same wall time plus one hour
+ * - Times repeated in October (03:00-03:59) resolve to the first (summer time) occurrence
+ */
+export function kyivWallTimeToInstant(
+	year: number,
+	month: number,
+	day: number,
+	hours = 0,
+	minutes = 0
+): Date {
+	const wallAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+	// Kyiv's offset within a day of the wall time is one of at most two values
+	const offsets = Array.from(
+		new Set([
+			getKyivOffsetMinutes(new Date(wallAsUtc - DAY_MS)),
+			getKyivOffsetMinutes(new Date(wallAsUtc + DAY_MS)),
+		])
+	).sort((a, b) => b - a); // Larger offset = earlier instant
+
+	for (const offset of offsets) {
+		const candidate = new Date(wallAsUtc - offset * MINUTE_MS);
+		if (getKyivOffsetMinutes(candidate) === offset) {
+			return candidate;
+		}
+	}
+
+	// Skipped wall time: apply the offset in effect before the transition
+	return new Date(wallAsUtc - getKyivOffsetMinutes(new Date(wallAsUtc - DAY_MS)) * MINUTE_MS);
+}
+
+// =============================================================================
+// Calendar Dates
+// =============================================================================
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Get Kyiv calendar date as ISO "YYYY-MM-DD"
+ * @param date Instant to convert (defaults to now)
+ */
+export function getKyivDateString(date: Date = appClock.now()): string {
+	const k = toKyivDateTime(date);
+	return `${k.year}-${pad(k.month)}-${pad(k.day)}`;
+}
+
+/**
+ * Get Kyiv day of week (1=Monday, 7=Sunday)
+ * @param date Instant to convert (defaults to now)
+ */
+export function getKyivDayOfWeek(date: Date = appClock.now()): string {
+	return String(toKyivDateTime(date).dayOfWeek);
+}
+
+/**
+ * Add calendar days to an ISO date
+ * Works on a UTC noon anchor, so DST days (23h/25h) never skip or repeat a date
+ * @param isoDate "YYYY-MM-DD"
+ * @param days Number of days to add (may be negative)
+ */
+export function addDaysToDate(isoDate: string, days: number): string {
+	const anchor = new Date(`${isoDate}T12:00:00Z`);
+	return new Date(anchor.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Get day of week for an ISO date (1=Monday, 7=Sunday)
+ * @param isoDate "YYYY-MM-DD"
+ */
+export function getDayOfWeekForDate(isoDate: string): string {
+	const jsDay = new Date(`${isoDate}T12:00:00Z`).getUTCDay(); // 0=Sunday in JavaScript
+	return String(jsDay === 0 ? 7 : jsDay);
+}
+
+/**
+ * Get consecutive Kyiv calendar dates starting from the given instant's date
+ * @param from Instant whose Kyiv date is the first entry (defaults to now)
+ * @param count Number of dates (defaults to a week)
+ */
+export function getUpcomingDates(from: Date = appClock.now(), count = 7): string[] {
+	const today = getKyivDateString(from);
+	return Array.from({ length: count }, (_, i) => addDaysToDate(today, i));
+}
+
+/**
+ * Format ISO date as "DD.MM" (the day/month part DTEK uses in outage ranges)
+ */
+export function formatDayMonth(isoDate: string): string {
+	const [, month, day] = isoDate.split('-');
+	return `${day}.${month}`;
+}
+
+// =============================================================================
+// Float Hours
+// =============================================================================
+
+/**
+ * Kyiv time of day as float hours (e.g., 14.5 = 14:30)
+ * @param date Instant to convert (defaults to now)
+ */
+export function getKyivTimeAsFloat(date: Date = appClock.now()): number {
+	const k = toKyivDateTime(date);
+	return k.hours + k.minutes / 60;
+}
+
+/**
+ * Absolute instant for a Kyiv date and float hour (24 = midnight of the next day)
+ * @param isoDate "YYYY-MM-DD"
+ * @param hour Float hour, 0-24 (9.5 = 09:30)
+ */
+export function kyivFloatHourToInstant(isoDate: string, hour: number): Date {
+	const date = hour >= 24 ? addDaysToDate(isoDate, 1) : isoDate;
+	const wallHour = hour >= 24 ? hour - 24 : hour;
+	const [year, month, day] = date.split('-').map(Number);
+	const totalMinutes = Math.round(wallHour * 60);
+	return kyivWallTimeToInstant(year, month, day, Math.floor(totalMinutes / 60), totalMinutes % 60);
+}
+
+// =============================================================================
+// DTEK Dates
+// =============================================================================
+
+/**
+ * Parse DTEK date format "14:30 17.12.2025" (Kyiv local time) to an absolute instant
+ * Format: "HH:MM DD.MM.YYYY"
+ * @throws Error on malformed input
+ */
+export function parseDtekDate(dateString: string): Date {
+	// Example: "14:30 17.12.2025"
+	const parts = dateString.trim().split(' ');
+	if (parts.length !== 2) {
+		throw new Error(`Invalid DTEK date format: ${dateString}`);
+	}
+
+	const [time, date] = parts;
+	const [hours, minutes] = time.split(':').map(Number);
+	const [day, month, year] = date.split('.').map(Number);
+
+	// Validate parsed values
+	if (
+		isNaN(hours) ||
+		isNaN(minutes) ||
+		isNaN(day) ||
+		isNaN(month) ||
+		isNaN(year) ||
+		hours < 0 ||
+		hours > 23 ||
+		minutes < 0 ||
+		minutes > 59 ||
+		day < 1 ||
+		day > 31 ||
+		month < 1 ||
+		month > 12
+	) {
+		throw new Error(`Invalid date values in: ${dateString}`);
+	}
+
+	return kyivWallTimeToInstant(year, month, day, hours, minutes);
+}
@@ -41,6 +41,8 @@ export interface RetryOptions {
 	delays?: number[];
 	/** Callback before each retry sleep. Useful for logging. */
 	onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+	/** Return false to stop retrying after an error (defaults to retrying every error) */
+	shouldRetry?: (error: unknown) => boolean;
 }
 
 /**
@@ -114,6 +116,11 @@ export async function withRetry<T, E = unknown>(
 			lastError = thrown;
 		}
 
+		// Non-retryable error - give up early with the attempts made so far
+		if (options?.shouldRetry && !options.shouldRetry(lastError)) {
+			return err(retryError(attempt, lastError));
+		}
+
 		// If not last attempt, sleep before retry
 		if (attempt < maxAttempts) {
 			const delayMs = delays[attempt - 1];
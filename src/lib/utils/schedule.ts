@@ -1,30 +1,19 @@
-import type { ScheduleRange } from '$lib/types/dtek';
-
-/**
- * Get current day of week in Ukraine (1=Monday, 7=Sunday)
- */
-export function getUkrainianDayOfWeek(): string {
-	const kyivTime = new Date().toLocaleString('en-US', { timeZone: 'Europe/Kyiv' });
-	const date = new Date(kyivTime);
-	const jsDay = date.getDay(); // 0=Sunday in JavaScript
-	return String(jsDay === 0 ? 7 : jsDay);
-}
-
-/**
- * Get tomorrow's day of week in Ukraine (1=Monday, 7=Sunday)
- */
-export function getTomorrowDayOfWeek(): string {
-	const today = parseInt(getUkrainianDayOfWeek());
-	return String(today === 7 ? 1 : today + 1);
-}
+import type { DaySchedule, ScheduleRange, ScheduleStatus } from '$lib/types/dtek';
+import type { BuildingStatus } from '$lib/types/address';
+import {
+	addDaysToDate,
+	getKyivDateString,
+	getKyivTimeAsFloat,
+	kyivFloatHourToInstant,
+	parseDtekDate,
+} from './kyiv-time';
+import { appClock, type Clock } from './clock';
 
 /**
  * Get current time in Ukraine as a float (e.g., 14.5 = 14:30)
  */
-export function getCurrentTimeAsFloat(): number {
-	const kyivTime = new Date().toLocaleString('en-US', { timeZone: 'Europe/Kyiv' });
-	const date = new Date(kyivTime);
-	return date.getHours() + date.getMinutes() / 60;
+export function getCurrentTimeAsFloat(clock: Clock = appClock): number {
+	return getKyivTimeAsFloat(clock.now());
 }
 
 /**
@@ -50,6 +39,13 @@ export function formatTimeFloat(time: number): string {
 	return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Fallback display name for a schedule group (GPV5.2 -> Черга 5.2)
+ */
+export function formatGroupName(groupId: string): string {
+	return `Черга ${groupId.replace(/^GPV/, '')}`;
+}
+
 /**
  * Traffic light status derived from schedule
  */
@@ -59,8 +55,11 @@ export type TrafficLightStatus = 'on' | 'maybe' | 'off' | 'emergency';
  * Get traffic light status from current schedule range
  * Maps schedule status to simplified traffic light state
  */
-export function getTrafficLightFromSchedule(ranges: ScheduleRange[]): TrafficLightStatus {
-	const currentTime = getCurrentTimeAsFloat();
+export function getTrafficLightFromSchedule(
+	ranges: ScheduleRange[],
+	clock: Clock = appClock
+): TrafficLightStatus {
+	const currentTime = getCurrentTimeAsFloat(clock);
 	const currentRange = findCurrentRange(ranges, currentTime);
 
 	if (!currentRange) {
@@ -68,8 +67,13 @@ export function getTrafficLightFromSchedule(ranges: ScheduleRange[]): TrafficLig
 		return 'on';
 	}
 
-	const status = currentRange.status;
+	return scheduleStatusToTrafficLight(currentRange.status);
+}
 
+/**
+ * Map a schedule range status to the traffic light state it shows
+ */
+export function scheduleStatusToTrafficLight(status: ScheduleStatus): TrafficLightStatus {
 	if (status === 'yes') {
 		return 'on';
 	}
@@ -82,12 +86,76 @@ export function getTrafficLightFromSchedule(ranges: ScheduleRange[]): TrafficLig
 	return 'off';
 }
 
+/**
+ * Power state of a building at an instant, as shown by the traffic light
+ */
+export interface BuildingState {
+	state: TrafficLightStatus;
+	/** Today's schedule range the state comes from (null during an outage or without a schedule) */
+	currentRange: ScheduleRange | null;
+	/** When the state is expected to change (null if the known data doesn't say) */
+	nextChangeAt: Date | null;
+}
+
+/**
+ * Resolve a building's current state
+ * Priority: active outage → today's schedule for the building's group → 'on'.
+ * During an outage the state changes when the outage ends; otherwise at the start of
+ * the next schedule range with a different state, looking through the following days
+ * as long as the schedule covers them.
+ *
+ * @param status - Building status from DTEK
+ * @param schedule - Schedule of the building's group by Kyiv date
+ */
+export function resolveBuildingState(
+	status: BuildingStatus | null,
+	schedule: Record<string, DaySchedule> | null | undefined,
+	clock: Clock = appClock
+): BuildingState {
+	if (status?.outage) {
+		// Only emergency gets pulsing animation, others show solid red
+		const state = status.outage.type === 'emergency' ? 'emergency' : 'off';
+		let nextChangeAt: Date | null = null;
+		try {
+			nextChangeAt = parseDtekDate(status.outage.to);
+		} catch {
+			// Unparseable end time: the change instant is unknown
+		}
+		return { state, currentRange: null, nextChangeAt };
+	}
+
+	const now = clock.now();
+	const today = getKyivDateString(now);
+	const todayRanges = schedule?.[today]?.ranges ?? [];
+	if (todayRanges.length === 0) {
+		return { state: 'on', currentRange: null, nextChangeAt: null };
+	}
+
+	const currentTime = getKyivTimeAsFloat(now);
+	const currentRange = findCurrentRange(todayRanges, currentTime);
+	const state = currentRange ? scheduleStatusToTrafficLight(currentRange.status) : 'on';
+
+	for (let date = today; schedule?.[date]; date = addDaysToDate(date, 1)) {
+		for (const range of schedule[date].ranges) {
+			if (date === today && range.to <= currentTime) continue;
+			if (scheduleStatusToTrafficLight(range.status) !== state) {
+				return { state, currentRange, nextChangeAt: kyivFloatHourToInstant(date, range.from) };
+			}
+		}
+	}
+
+	return { state, currentRange, nextChangeAt: null };
+}
+
 /**
  * Get the current schedule range info for display
  * Returns the time range string for the current period
  */
-export function getCurrentRangeInfo(ranges: ScheduleRange[]): string | null {
-	const currentTime = getCurrentTimeAsFloat();
+export function getCurrentRangeInfo(
+	ranges: ScheduleRange[],
+	clock: Clock = appClock
+): string | null {
+	const currentTime = getCurrentTimeAsFloat(clock);
 	const currentRange = findCurrentRange(ranges, currentTime);
 
 	if (!currentRange) {
@@ -0,0 +1,78 @@
+/**
+ * "Did you mean" suggestions for city and street names
+ *
+ * DTEK names carry type prefixes ("м.", "вул.", "просп.") and mix apostrophe characters,
+ * so names are normalized before comparing: a user typing "Педагогічна" should be
+ * pointed at "вул. Педагогічна".
+ */
+
+const APOSTROPHES = /[ʼ'’`]/g;
+
+/** One or more leading abbreviations such as "вул. " or "м. " */
+const TYPE_PREFIX = /^(?:[\p{L}-]{1,6}\.\s*)+/u;
+
+/**
+ * Normalize a name for comparison: lowercase, one apostrophe, no type prefix
+ */
+export function normalizeName(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(APOSTROPHES, "'")
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(TYPE_PREFIX, '');
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Find the names closest to what the user asked for
+ * Same name after normalization ranks first, then names containing the query,
+ * then names within a few typos (more allowed for longer queries).
+ *
+ * @param query - Name that was not found
+ * @param candidates - Known names
+ * @param limit - Maximum number of suggestions
+ * @returns Suggestions, best first
+ */
+export function suggestNames(query: string, candidates: readonly string[], limit = 5): string[] {
+	const target = normalizeName(query);
+	if (!target) return [];
+
+	const maxDistance = Math.max(2, Math.floor(target.length / 3));
+	const scored: Array<{ name: string; score: number }> = [];
+
+	for (const name of candidates) {
+		const normalized = normalizeName(name);
+		let score: number;
+		if (normalized === target) {
+			score = 0;
+		} else if (normalized.includes(target)) {
+			score = 1;
+		} else {
+			const distance = levenshtein(normalized, target);
+			if (distance > maxDistance) continue;
+			score = 1 + distance;
+		}
+		scored.push({ name, score });
+	}
+
+	return scored
+		.sort((a, b) => a.score - b.score || a.name.localeCompare(b.name, 'uk'))
+		.slice(0, limit)
+		.map(({ name }) => name);
+}
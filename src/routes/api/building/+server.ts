@@ -0,0 +1,76 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDtekService } from '$lib/server';
+import { handleServiceError } from '$lib/server/route-utils';
+import { getStreetStatus } from '$lib/server/street-status';
+import { validateQuery } from '$lib/server/validate';
+import { buildingQuerySchema } from '$lib/schemas';
+import { buildingNotFoundError } from '$lib/types';
+import type { BuildingStateResponse } from '$lib/types/address';
+import type { DaySchedule } from '$lib/types/dtek';
+import type { RegionCode } from '$lib/constants/regions';
+import { resolveBuildingState } from '$lib/utils/schedule';
+import { suggestNames } from '$lib/utils/suggest';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const validation = validateQuery(url, buildingQuerySchema);
+	if (!validation.ok) return validation.error.response;
+
+	const { region, city, street, building } = validation.value;
+
+	const start = Date.now();
+	console.log(
+		`[API] GET /api/building region=${region} city=${city} street=${street} building=${building}`
+	);
+
+	const logPrefix = `[API] GET /api/building?region=${region}&city=${city}&street=${street}&building=${building} failed:`;
+	const result = await getStreetStatus(region as RegionCode, city, street, logPrefix);
+
+	console.log(`[API] GET /api/building completed in ${Date.now() - start}ms`);
+
+	if (!result.ok) {
+		return handleServiceError(logPrefix, result.error);
+	}
+
+	const { fetched, buildings } = result.value;
+	const status = buildings[building];
+	if (!status) {
+		const suggestions = suggestNames(building, Object.keys(buildings));
+		return handleServiceError(
+			logPrefix,
+			buildingNotFoundError(city, street, building, suggestions, { region })
+		);
+	}
+
+	// Schedule of the building's group decides the state when there is no outage
+	let schedule: Record<string, DaySchedule> | null = null;
+	if (status.group) {
+		const schedulesResult = await getDtekService(region as RegionCode).getSchedules([status.group]);
+		schedule = schedulesResult.ok ? schedulesResult.value[status.group] : null;
+	}
+
+	const { state, currentRange, nextChangeAt } = resolveBuildingState(status, schedule);
+	const { fetchedAt, stale, cacheStatus } = fetched;
+
+	const body: BuildingStateResponse = {
+		region: region as RegionCode,
+		city,
+		street,
+		building,
+		group: status.group ?? null,
+		outage: status.outage ?? null,
+		state,
+		currentRange,
+		nextChangeAt: nextChangeAt?.getTime() ?? null,
+		fetchedAt,
+		stale,
+		cacheStatus,
+		...(stale && { ageMs: Date.now() - fetchedAt }),
+	};
+
+	return json(body, {
+		headers: {
+			'Cache-Control': 'private, no-store, must-revalidate',
+		},
+	});
+};
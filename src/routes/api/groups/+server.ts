@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDtekService } from '$lib/server';
+import { handleServiceError, unwrapRetryError } from '$lib/server/route-utils';
+import { validateQuery } from '$lib/server/validate';
+import { regionQuerySchema } from '$lib/schemas';
+import type { GroupsResponse } from '$lib/types/address';
+import type { RegionCode } from '$lib/constants/regions';
+import { withRetry, DEFAULT_RETRY_DELAYS } from '$lib/utils/retry';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const validation = validateQuery(url, regionQuerySchema);
+	if (!validation.ok) return validation.error.response;
+
+	const { region } = validation.value;
+	const service = getDtekService(region as RegionCode);
+
+	const result = await withRetry(() => service.getGroups(), {
+		delays: DEFAULT_RETRY_DELAYS,
+		onRetry: (attempt, _, delay) => {
+			console.log(`[API] /api/groups retry ${attempt}, waiting ${delay}ms`);
+		},
+	});
+
+	if (!result.ok) {
+		return handleServiceError(
+			`[API] GET /api/groups?region=${region} failed:`,
+			unwrapRetryError(result.error)
+		);
+	}
+
+	const body: GroupsResponse = { region: region as RegionCode, groups: result.value };
+
+	return json(body, {
+		headers: {
+			'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+		},
+	});
+};
@@ -0,0 +1,65 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDtekMeta } from '$lib/server/kv/client';
+import { getDtekService } from '$lib/server';
+import { handleServiceError } from '$lib/server/route-utils';
+import { REGION_CODES } from '$lib/constants/regions';
+import { DTEK_STALE_THRESHOLD_MS } from '$lib/types/dtek-cache';
+import type { HealthResponse, RegionHealth } from '$lib/types/address';
+
+/**
+ * Region needs attention: stale data, failing DTEK or no session left in rotation
+ */
+function isDegraded(region: RegionHealth): boolean {
+	const sessionsDown =
+		region.sessions.length > 0 && region.sessions.every((session) => !session.healthy);
+	return region.stale || region.circuit.state !== 'closed' || sessionsDown;
+}
+
+export const GET: RequestHandler = async () => {
+	const result = await getDtekMeta();
+
+	if (!result.ok) {
+		return handleServiceError('[API] GET /api/health failed:', result.error);
+	}
+
+	const meta = result.value;
+	const now = Date.now();
+
+	const regions: RegionHealth[] = await Promise.all(
+		REGION_CODES.map(async (region) => {
+			const stats = meta?.regions?.[region];
+			const service = getDtekService(region);
+			const lastSuccess = stats?.lastSuccess ?? null;
+			const ageMs = lastSuccess ? now - new Date(lastSuccess).getTime() : null;
+
+			return {
+				region,
+				lastSuccess,
+				ageMs,
+				stale: ageMs === null || ageMs > DTEK_STALE_THRESHOLD_MS,
+				error: meta?.errors?.[region],
+				durationMs: stats?.durationMs,
+				attempts: stats?.attempts,
+				// Breakers and caches live in memory, so these reflect the instance serving the request
+				circuit: service.getCircuitHealth(),
+				caches: service.getCacheStats(),
+				// Session counters live in Redis, shared by every instance
+				sessions: await service.getSessionHealth(),
+			};
+		})
+	);
+
+	const response: HealthResponse = {
+		status: regions.some(isDegraded) ? 'degraded' : 'ok',
+		lastRefresh: meta?.lastRefresh ?? null,
+		regions,
+		checkedAt: now,
+	};
+
+	return json(response, {
+		headers: {
+			'Cache-Control': 'public, s-maxage=60',
+		},
+	});
+};
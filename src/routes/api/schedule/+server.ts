@@ -0,0 +1,52 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDtekService } from '$lib/server';
+import { handleServiceError, isRetryableError, unwrapRetryError } from '$lib/server/route-utils';
+import { validateQuery } from '$lib/server/validate';
+import { groupQuerySchema } from '$lib/schemas';
+import type { GroupScheduleResponse } from '$lib/types/address';
+import type { RegionCode } from '$lib/constants/regions';
+import { DTEK_STALE_THRESHOLD_MS } from '$lib/types/dtek-cache';
+import { withRetry, DEFAULT_RETRY_DELAYS } from '$lib/utils/retry';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const validation = validateQuery(url, groupQuerySchema);
+	if (!validation.ok) return validation.error.response;
+
+	const { region, group } = validation.value;
+	const service = getDtekService(region as RegionCode);
+
+	const result = await withRetry(() => service.getGroupSchedule(group), {
+		delays: DEFAULT_RETRY_DELAYS,
+		shouldRetry: isRetryableError,
+		onRetry: (attempt, _, delay) => {
+			console.log(`[API] /api/schedule retry ${attempt}, waiting ${delay}ms`);
+		},
+	});
+
+	if (!result.ok) {
+		return handleServiceError(
+			`[API] GET /api/schedule?region=${region}&group=${group} failed:`,
+			unwrapRetryError(result.error)
+		);
+	}
+
+	const { extractedAt, ...groupSchedule } = result.value;
+	const extractedAtMs = new Date(extractedAt).getTime();
+	const ageMs = Date.now() - extractedAtMs;
+
+	const body: GroupScheduleResponse = {
+		region: region as RegionCode,
+		...groupSchedule,
+		extractedAt: extractedAtMs,
+		ageMs,
+		stale: ageMs > DTEK_STALE_THRESHOLD_MS,
+	};
+
+	// Schedules change whenever the refresh script picks up a new DTEK update
+	return json(body, {
+		headers: {
+			'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+		},
+	});
+};
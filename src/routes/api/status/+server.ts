@@ -1,12 +1,12 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getDtekService, transformBuildingStatus } from '$lib/server';
-import { handleServiceError, unwrapRetryError } from '$lib/server/route-utils';
+import { getDtekService } from '$lib/server';
+import { handleServiceError } from '$lib/server/route-utils';
+import { collectGroupIds, getStreetStatus } from '$lib/server/street-status';
 import { validateQuery } from '$lib/server/validate';
 import { statusQuerySchema } from '$lib/schemas';
-import type { BuildingStatus } from '$lib/types/address';
+import type { StatusResponse } from '$lib/types/address';
 import type { RegionCode } from '$lib/constants/regions';
-import { withRetry, DEFAULT_RETRY_DELAYS } from '$lib/utils/retry';
 
 export const GET: RequestHandler = async ({ url }) => {
 	const validation = validateQuery(url, statusQuerySchema);
@@ -17,63 +17,38 @@ export const GET: RequestHandler = async ({ url }) => {
 	const start = Date.now();
 	console.log(`[API] GET /api/status region=${region} city=${city} street=${street}`);
 
-	const service = getDtekService(region as RegionCode);
-
-	const result = await withRetry(() => service.getStatus(city, street), {
-		delays: DEFAULT_RETRY_DELAYS,
-		onRetry: (attempt, _, delay) => {
-			console.log(`[API] /api/status retry ${attempt}, waiting ${delay}ms`);
-		},
-	});
+	const logPrefix = `[API] GET /api/status?region=${region}&city=${city}&street=${street} failed:`;
+	const result = await getStreetStatus(region as RegionCode, city, street, logPrefix);
 
-	const fetchedAt = Date.now();
-	console.log(`[API] GET /api/status completed in ${fetchedAt - start}ms`);
+	console.log(`[API] GET /api/status completed in ${Date.now() - start}ms`);
 
 	if (!result.ok) {
-		return handleServiceError(
-			`[API] GET /api/status?region=${region}&city=${city}&street=${street} failed:`,
-			unwrapRetryError(result.error)
-		);
+		return handleServiceError(logPrefix, result.error);
 	}
 
-	const response = result.value;
-
-	// Validate response structure
-	if (!response || !response.data || typeof response.data !== 'object') {
-		console.error('[API] Invalid response structure from dtekService:', response);
-		return json(
-			{ error: 'PARSE_ERROR', message: 'Сервер ДТЕК повернув некоректні дані' },
-			{ status: 502 }
-		);
-	}
-
-	// Transform buildings and collect groups
-	const buildings: Record<string, BuildingStatus> = {};
-	const groupIds = new Set<string>();
-
-	for (const [num, raw] of Object.entries(response.data)) {
-		const status = transformBuildingStatus(raw);
-		buildings[num] = status;
-		if (status.group) groupIds.add(status.group);
-	}
+	const { fetched, buildings } = result.value;
+	const { fetchedAt, stale, cacheStatus } = fetched;
 
 	// Fetch schedules for referenced groups
-	const schedulesResult = await service.getSchedules([...groupIds]);
+	const service = getDtekService(region as RegionCode);
+	const schedulesResult = await service.getSchedules(collectGroupIds(Object.values(buildings)));
 	const schedules = schedulesResult.ok ? schedulesResult.value : {};
 
 	// Return all buildings with transformed status and schedules
-	return json(
-		{
-			city,
-			street,
-			buildings,
-			schedules,
-			fetchedAt,
+	const body: StatusResponse = {
+		city,
+		street,
+		buildings,
+		schedules,
+		fetchedAt,
+		stale,
+		cacheStatus,
+		...(stale && { ageMs: Date.now() - fetchedAt }),
+	};
+
+	return json(body, {
+		headers: {
+			'Cache-Control': 'private, no-store, must-revalidate',
 		},
-		{
-			headers: {
-				'Cache-Control': 'private, no-store, must-revalidate',
-			},
-		}
-	);
+	});
 };
@@ -0,0 +1,104 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getDtekService } from '$lib/server';
+import { reportServiceError, serviceErrorBody } from '$lib/server/route-utils';
+import { collectGroupIds, getStreetStatus, type StreetStatus } from '$lib/server/street-status';
+import { validateBody } from '$lib/server/validate';
+import { batchStatusRequestSchema } from '$lib/schemas';
+import type { BatchStatusResponse, BatchStatusResult, BuildingStatus } from '$lib/types/address';
+import type { DtekError, Result } from '$lib/types';
+import type { DaySchedule } from '$lib/types/dtek';
+import type { RegionCode } from '$lib/constants/regions';
+
+/**
+ * Key identifying one street lookup (addresses on the same street share it)
+ */
+function streetKey(region: string, city: string, street: string): string {
+	return `${region}\n${city}\n${street}`;
+}
+
+export const POST: RequestHandler = async ({ request }) => {
+	const validation = await validateBody(request, batchStatusRequestSchema);
+	if (!validation.ok) return validation.error.response;
+
+	const { addresses } = validation.value;
+
+	const start = Date.now();
+
+	// One DTEK lookup per street, however many buildings were asked for on it
+	const lookups = new Map<string, Promise<Result<StreetStatus, DtekError>>>();
+	for (const { region, city, street } of addresses) {
+		const key = streetKey(region, city, street);
+		if (lookups.has(key)) continue;
+
+		const logPrefix = `[API] POST /api/status/batch region=${region} city=${city} street=${street} failed:`;
+		lookups.set(
+			key,
+			getStreetStatus(region as RegionCode, city, street, logPrefix).then((result) => {
+				if (!result.ok) reportServiceError(logPrefix, result.error);
+				return result;
+			})
+		);
+	}
+
+	console.log(`[API] POST /api/status/batch addresses=${addresses.length} streets=${lookups.size}`);
+
+	const streets = new Map<string, Result<StreetStatus, DtekError>>();
+	await Promise.all([...lookups].map(async ([key, lookup]) => streets.set(key, await lookup)));
+
+	// Pick each requested building out of its street, in request order
+	const groupsByRegion = new Map<RegionCode, Array<BuildingStatus | null>>();
+	const results: BatchStatusResult[] = addresses.map((address) => {
+		const { region, city, street, building } = address;
+		const result = streets.get(streetKey(region, city, street))!;
+		const item = { region: region as RegionCode, city, street, building };
+
+		if (!result.ok) {
+			return { ...item, ok: false, error: serviceErrorBody(result.error) };
+		}
+
+		const { fetched, buildings } = result.value;
+		const status = buildings[building] ?? null;
+
+		const statuses = groupsByRegion.get(item.region) ?? [];
+		statuses.push(status);
+		groupsByRegion.set(item.region, statuses);
+
+		return {
+			...item,
+			ok: true,
+			status,
+			fetchedAt: fetched.fetchedAt,
+			stale: fetched.stale,
+			cacheStatus: fetched.cacheStatus,
+			...(fetched.stale && { ageMs: Date.now() - fetched.fetchedAt }),
+		};
+	});
+
+	// Schedules only for the groups of requested buildings, prefixed with region
+	// (same group IDs exist across regions with different schedules)
+	const schedules: Record<string, Record<string, DaySchedule>> = {};
+	await Promise.all(
+		[...groupsByRegion].map(async ([region, statuses]) => {
+			const groupIds = collectGroupIds(statuses);
+			if (groupIds.length === 0) return;
+
+			const schedulesResult = await getDtekService(region).getSchedules(groupIds);
+			if (!schedulesResult.ok) return;
+
+			for (const [groupId, days] of Object.entries(schedulesResult.value)) {
+				schedules[`${region}:${groupId}`] = days;
+			}
+		})
+	);
+
+	console.log(`[API] POST /api/status/batch completed in ${Date.now() - start}ms`);
+
+	const body: BatchStatusResponse = { results, schedules };
+
+	return json(body, {
+		headers: {
+			'Cache-Control': 'private, no-store, must-revalidate',
+		},
+	});
+};
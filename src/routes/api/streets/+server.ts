@@ -1,7 +1,7 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getDtekService } from '$lib/server';
-import { handleServiceError, unwrapRetryError } from '$lib/server/route-utils';
+import { handleServiceError, isRetryableError, unwrapRetryError } from '$lib/server/route-utils';
 import { validateQuery } from '$lib/server/validate';
 import { cityQuerySchema } from '$lib/schemas';
 import type { RegionCode } from '$lib/constants/regions';
@@ -16,6 +16,7 @@ export const GET: RequestHandler = async ({ url }) => {
 
 	const result = await withRetry(() => service.getStreets(city), {
 		delays: DEFAULT_RETRY_DELAYS,
+		shouldRetry: isRetryableError,
 		onRetry: (attempt, _, delay) => {
 			console.log(`[API] /api/streets retry ${attempt}, waiting ${delay}ms`);
 		},
@@ -1,10 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { get } from 'svelte/store';
-import { addressStatusStore } from '$lib/stores/address-status';
-import type { SavedAddress } from '$lib/types/address';
+import { addressStatusStore, scheduleCacheStore } from '$lib/stores/address-status';
+import type { SavedBuildingAddress, SavedGroup } from '$lib/types/address';
 import * as apiClient from '$lib/utils/api-client';
 import { ok, err } from '$lib/types/result';
 import { apiError } from '$lib/types/errors';
+import { showError } from '$lib/stores/toast';
 
 // Mock API client
 vi.mock('$lib/utils/api-client');
@@ -17,8 +18,9 @@ vi.mock('$lib/stores/toast', () => ({
 }));
 
 describe('addressStatusStore', () => {
-	const mockAddress1: SavedAddress = {
+	const mockAddress1: SavedBuildingAddress = {
 		id: 'addr-1',
+		kind: 'address',
 		region: 'oem',
 		city: 'м. Одеса',
 		street: 'вул. Педагогічна',
@@ -27,8 +29,9 @@ describe('addressStatusStore', () => {
 		createdAt: Date.now(),
 	};
 
-	const mockAddress2: SavedAddress = {
+	const mockAddress2: SavedBuildingAddress = {
 		id: 'addr-2',
+		kind: 'address',
 		region: 'oem',
 		city: 'м. Одеса',
 		street: 'вул. Дерибасівська',
@@ -70,6 +73,27 @@ describe('addressStatusStore', () => {
 			expect(entry?.loading).toBe(false);
 			expect(entry?.error).toBeNull();
 			expect(entry?.fetchedAt).toBe(mockResponse.fetchedAt);
+			expect(entry?.stale).toBe(false);
+		});
+
+		it('keeps last-known data served by the server as stale, without an error', async () => {
+			const fetchedAt = Date.now() - 15 * 60 * 1000;
+			vi.mocked(apiClient.fetchBuildingStatuses).mockResolvedValueOnce(
+				ok({
+					city: 'м. Одеса',
+					street: 'вул. Педагогічна',
+					buildings: { '25/39': {} },
+					schedules: {},
+					fetchedAt,
+					stale: true,
+					ageMs: 15 * 60 * 1000,
+				})
+			);
+
+			await addressStatusStore.fetchStatus(mockAddress1);
+
+			const entry = addressStatusStore.getStatus('addr-1');
+			expect(entry).toMatchObject({ status: {}, fetchedAt, stale: true, error: null });
 		});
 
 		it('sets loading state during fetch', async () => {
@@ -197,75 +221,152 @@ describe('addressStatusStore', () => {
 	});
 
 	describe('fetchAllStatuses', () => {
-		it('fetches statuses for multiple addresses in parallel', async () => {
-			const mockResponse1 = {
-				city: 'м. Одеса',
-				street: 'вул. Педагогічна',
-				buildings: {
-					'25/39': {},
-				},
-				schedules: {},
-				fetchedAt: Date.now(),
-			};
+		const item = (address: SavedBuildingAddress) => ({
+			region: address.region,
+			city: address.city,
+			street: address.street,
+			building: address.building,
+		});
 
-			const mockResponse2 = {
-				city: 'м. Одеса',
-				street: 'вул. Дерибасівська',
-				buildings: {
-					'12': {
-						outage: {
-							type: 'stabilization' as const,
-							from: '14:30 17.12.2025',
-							to: '23:00 17.12.2025',
+		it('fetches statuses for multiple addresses with one batch request', async () => {
+			const fetchedAt = Date.now();
+			vi.mocked(apiClient.fetchBatchStatuses).mockResolvedValueOnce(
+				ok({
+					results: [
+						{ ...item(mockAddress1), ok: true, status: {}, fetchedAt, stale: false },
+						{
+							...item(mockAddress2),
+							ok: true,
+							status: {
+								outage: {
+									type: 'stabilization' as const,
+									from: '14:30 17.12.2025',
+									to: '23:00 17.12.2025',
+								},
+							},
+							fetchedAt,
+							stale: false,
 						},
-					},
-				},
-				schedules: {},
-				fetchedAt: Date.now(),
-			};
-
-			vi.mocked(apiClient.fetchBuildingStatuses)
-				.mockResolvedValueOnce(ok(mockResponse1))
-				.mockResolvedValueOnce(ok(mockResponse2));
+					],
+					schedules: {},
+				})
+			);
 
 			await addressStatusStore.fetchAllStatuses([mockAddress1, mockAddress2]);
 
-			expect(apiClient.fetchBuildingStatuses).toHaveBeenCalledTimes(2);
+			expect(apiClient.fetchBatchStatuses).toHaveBeenCalledTimes(1);
+			expect(apiClient.fetchBatchStatuses).toHaveBeenCalledWith([
+				item(mockAddress1),
+				item(mockAddress2),
+			]);
+			expect(apiClient.fetchBuildingStatuses).not.toHaveBeenCalled();
 
 			const entry1 = addressStatusStore.getStatus('addr-1');
 			const entry2 = addressStatusStore.getStatus('addr-2');
 
 			expect(entry1?.status?.outage).toBeUndefined();
 			expect(entry2?.status?.outage).toBeDefined();
+			expect(entry2).toMatchObject({ fetchedAt, loading: false, error: null });
 		});
 
-		it('continues fetching even if one address fails', async () => {
-			vi.mocked(apiClient.fetchBuildingStatuses)
-				.mockResolvedValueOnce(err(apiError('NETWORK_ERROR', 'Failed for address 1')))
-				.mockResolvedValueOnce(
-					ok({
-						city: 'м. Одеса',
-						street: 'вул. Дерибасівська',
-						buildings: {
-							'12': {},
-						},
-						schedules: {},
-						fetchedAt: Date.now(),
-					})
-				);
+		it('reports failures per address and shows each message once', async () => {
+			const mockAddress3: SavedBuildingAddress = { ...mockAddress1, id: 'addr-3', building: '27' };
+			const notFound = { error: 'STREET_NOT_FOUND', message: 'Вулицю не знайдено' };
+			vi.mocked(apiClient.fetchBatchStatuses).mockResolvedValueOnce(
+				ok({
+					results: [
+						{ ...item(mockAddress1), ok: false, error: notFound },
+						{ ...item(mockAddress2), ok: true, status: {}, fetchedAt: Date.now(), stale: false },
+						{ ...item(mockAddress3), ok: false, error: notFound },
+					],
+					schedules: {},
+				})
+			);
+
+			await addressStatusStore.fetchAllStatuses([mockAddress1, mockAddress2, mockAddress3]);
+
+			expect(addressStatusStore.getStatus('addr-1')?.error).toBe('Вулицю не знайдено');
+			expect(addressStatusStore.getStatus('addr-2')?.status?.outage).toBeUndefined();
+			expect(addressStatusStore.getStatus('addr-3')?.error).toBe('Вулицю не знайдено');
+			expect(showError).toHaveBeenCalledTimes(1);
+		});
+
+		it('marks every address as failed when the batch request fails', async () => {
+			vi.mocked(apiClient.fetchBatchStatuses).mockResolvedValueOnce(
+				err(apiError('NETWORK_ERROR', 'Network error'))
+			);
 
 			await addressStatusStore.fetchAllStatuses([mockAddress1, mockAddress2]);
 
-			const entry1 = addressStatusStore.getStatus('addr-1');
-			const entry2 = addressStatusStore.getStatus('addr-2');
+			expect(addressStatusStore.getStatus('addr-1')).toMatchObject({
+				loading: false,
+				error: 'Network error',
+			});
+			expect(addressStatusStore.getStatus('addr-2')?.error).toBe('Network error');
+			expect(showError).toHaveBeenCalledTimes(1);
+		});
+
+		it('stores region-prefixed schedules from the batch response', async () => {
+			const schedule = { '2099-01-01': { ranges: [], source: 'preset' as const } };
+			vi.mocked(apiClient.fetchBatchStatuses).mockResolvedValueOnce(
+				ok({
+					results: [
+						{
+							...item(mockAddress1),
+							ok: true,
+							status: { group: 'GPV1.2' },
+							fetchedAt: Date.now(),
+							stale: false,
+						},
+					],
+					schedules: { 'oem:GPV1.2': schedule },
+				})
+			);
+
+			await addressStatusStore.fetchAllStatuses([mockAddress1]);
+
+			expect(get(scheduleCacheStore)?.schedules).toEqual({ 'oem:GPV1.2': schedule });
+		});
+
+		it('fetches group-only entries by their group schedule, outside the batch', async () => {
+			const mockGroup: SavedGroup = {
+				id: 'group-1',
+				kind: 'group',
+				region: 'oem',
+				group: 'GPV1.2',
+				createdAt: Date.now(),
+			};
+			const schedule = { '2099-01-01': { ranges: [], source: 'preset' as const } };
+			const extractedAt = Date.now();
+			vi.mocked(apiClient.fetchGroupSchedule).mockResolvedValueOnce(
+				ok({
+					region: 'oem',
+					group: { id: 'GPV1.2', name: 'Черга 1.2' },
+					schedule,
+					updateFact: '17.12.2025 14:00',
+					extractedAt,
+					ageMs: 0,
+					stale: false,
+				})
+			);
+
+			await addressStatusStore.fetchAllStatuses([mockGroup]);
 
-			expect(entry1?.error).toBe('Failed for address 1');
-			expect(entry2?.status?.outage).toBeUndefined();
+			expect(apiClient.fetchGroupSchedule).toHaveBeenCalledWith('oem', 'GPV1.2');
+			expect(apiClient.fetchBatchStatuses).not.toHaveBeenCalled();
+			expect(addressStatusStore.getStatus('group-1')).toMatchObject({
+				status: { group: 'GPV1.2' },
+				fetchedAt: extractedAt,
+				loading: false,
+				error: null,
+			});
+			expect(get(scheduleCacheStore)?.schedules).toEqual({ 'oem:GPV1.2': schedule });
 		});
 
 		it('handles empty address array', async () => {
 			await addressStatusStore.fetchAllStatuses([]);
 
+			expect(apiClient.fetchBatchStatuses).not.toHaveBeenCalled();
 			expect(apiClient.fetchBuildingStatuses).not.toHaveBeenCalled();
 		});
 	});
@@ -298,4 +399,50 @@ describe('addressStatusStore', () => {
 			expect(status).toBeUndefined();
 		});
 	});
+
+	describe('schedule cache', () => {
+		const day = (status: 'yes' | 'no', source: 'fact' | 'preset') => ({
+			ranges: [{ from: 0, to: 24, status }],
+			source,
+		});
+
+		const response = (schedules: Record<string, Record<string, ReturnType<typeof day>>>) => ({
+			city: 'м. Одеса',
+			street: 'вул. Педагогічна',
+			buildings: { '25/39': { group: 'GPV1.2' } },
+			schedules,
+			fetchedAt: Date.now(),
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('merges schedules by date and drops past days', async () => {
+			// 17.12.2025 15:00 Kyiv
+			vi.useFakeTimers({ now: new Date('2025-12-17T13:00:00Z'), toFake: ['Date'] });
+
+			vi.mocked(apiClient.fetchBuildingStatuses)
+				.mockResolvedValueOnce(
+					ok(
+						response({
+							'GPV1.2': {
+								'2025-12-16': day('no', 'fact'),
+								'2025-12-17': day('yes', 'preset'),
+								'2025-12-18': day('yes', 'preset'),
+							},
+						})
+					)
+				)
+				.mockResolvedValueOnce(ok(response({ 'GPV1.2': { '2025-12-17': day('no', 'fact') } })));
+
+			await addressStatusStore.fetchStatus(mockAddress1);
+			await addressStatusStore.fetchStatus(mockAddress2);
+
+			expect(get(scheduleCacheStore)?.schedules['oem:GPV1.2']).toEqual({
+				'2025-12-17': day('no', 'fact'),
+				'2025-12-18': day('yes', 'preset'),
+			});
+		});
+	});
 });
@@ -1,6 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { fetchCities, fetchStreets, fetchBuildingStatuses } from '$lib/utils/api-client';
-import type { CitiesResponse, StreetsResponse, StatusResponse } from '$lib/types/address';
+import {
+	fetchCities,
+	fetchStreets,
+	fetchBuildingStatuses,
+	fetchBatchStatuses,
+	fetchGroupSchedule,
+	fetchHealth,
+} from '$lib/utils/api-client';
+import type {
+	CitiesResponse,
+	StreetsResponse,
+	StatusResponse,
+	BatchStatusResponse,
+	GroupScheduleResponse,
+	HealthResponse,
+} from '$lib/types/address';
 
 describe('fetchCities', () => {
 	beforeEach(() => {
@@ -302,6 +316,28 @@ describe('fetchBuildingStatuses', () => {
 		);
 	});
 
+	it('returns NOT_FOUND with suggestions for an unknown street', async () => {
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: false,
+			status: 404,
+			json: async () => ({
+				error: 'STREET_NOT_FOUND',
+				message: 'Вулицю не знайдено',
+				suggestions: ['вул. Педагогічна', 'пров. Педагогічний'],
+			}),
+		});
+
+		const result = await fetchBuildingStatuses('oem', 'м. Одеса', 'Педагогічна');
+
+		expect(!result.ok && result.error).toMatchObject({
+			code: 'NOT_FOUND',
+			httpStatus: 404,
+			message:
+				'Адресу не знайдено. Можливо, ви мали на увазі: вул. Педагогічна, пров. Педагогічний?',
+			suggestions: ['вул. Педагогічна', 'пров. Педагогічний'],
+		});
+	});
+
 	it('returns error on invalid response format (missing city)', async () => {
 		(global.fetch as any).mockResolvedValueOnce({
 			ok: true,
@@ -388,3 +424,216 @@ describe('fetchBuildingStatuses', () => {
 		}
 	});
 });
+
+describe('fetchBatchStatuses', () => {
+	const address = {
+		region: 'oem' as const,
+		city: 'м. Одеса',
+		street: 'вул. Педагогічна',
+		building: '25/39',
+	};
+
+	beforeEach(() => {
+		global.fetch = vi.fn();
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('posts the addresses and returns per-address results', async () => {
+		const mockResponse: BatchStatusResponse = {
+			results: [
+				{ ...address, ok: true, status: {}, fetchedAt: Date.now(), stale: false },
+				{
+					...address,
+					building: '27',
+					ok: false,
+					error: { error: 'NETWORK_ERROR', message: 'Помилка мережі' },
+				},
+			],
+			schedules: {},
+		};
+
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			json: async () => mockResponse,
+		});
+
+		const result = await fetchBatchStatuses([address, { ...address, building: '27' }]);
+
+		expect(global.fetch).toHaveBeenCalledWith('/api/status/batch', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ addresses: [address, { ...address, building: '27' }] }),
+		});
+		expect(result).toEqual({ ok: true, value: mockResponse });
+	});
+
+	it('returns validation error on 400 Bad Request', async () => {
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: false,
+			status: 400,
+			json: async () => ({ error: 'VALIDATION_ERROR', message: 'Список адрес порожній' }),
+		});
+
+		const result = await fetchBatchStatuses([]);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('VALIDATION_ERROR');
+			expect(result.error.httpStatus).toBe(400);
+		}
+	});
+
+	it('returns error when results do not match the request', async () => {
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			json: async () => ({ results: [], schedules: {} }),
+		});
+
+		const result = await fetchBatchStatuses([address]);
+
+		expect(result.ok).toBe(false);
+		expect(console.error).toHaveBeenCalledWith(
+			'[API Client] fetchBatchStatuses: invalid response structure'
+		);
+	});
+});
+
+describe('fetchHealth', () => {
+	beforeEach(() => {
+		global.fetch = vi.fn();
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const closedCircuit = {
+		state: 'closed',
+		consecutiveFailures: 0,
+		openedAt: null,
+		nextProbeAt: null,
+	} as const;
+
+	const emptyCache = { size: 0, hits: 0, misses: 0, evictions: 0, expirations: 0 };
+	const caches = { status: emptyCache, lastKnown: emptyCache };
+
+	it('returns region freshness on success', async () => {
+		const mockResponse: HealthResponse = {
+			status: 'degraded',
+			lastRefresh: '2025-12-17T12:00:00.000Z',
+			regions: [
+				{
+					region: 'kem',
+					lastSuccess: '2025-12-17T12:00:00.000Z',
+					ageMs: 60_000,
+					stale: false,
+					circuit: closedCircuit,
+					caches,
+					sessions: [],
+				},
+				{
+					region: 'oem',
+					lastSuccess: null,
+					ageMs: null,
+					stale: true,
+					error: 'Timeout',
+					circuit: closedCircuit,
+					caches,
+					sessions: [],
+				},
+			],
+			checkedAt: Date.now(),
+		};
+
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			json: async () => mockResponse,
+		});
+
+		const result = await fetchHealth();
+
+		expect(global.fetch).toHaveBeenCalledWith('/api/health');
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.regions.filter((r) => r.stale).map((r) => r.region)).toEqual(['oem']);
+		}
+	});
+
+	it('returns server error on HTTP failure', async () => {
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: false,
+			status: 503,
+			json: async () => ({ error: 'KV_ERROR' }),
+		});
+
+		const result = await fetchHealth();
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('SERVER_ERROR');
+			expect(result.error.httpStatus).toBe(503);
+		}
+	});
+});
+
+describe('fetchGroupSchedule', () => {
+	beforeEach(() => {
+		global.fetch = vi.fn();
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('returns the schedule of a group', async () => {
+		const mockResponse: GroupScheduleResponse = {
+			region: 'oem',
+			group: { id: 'GPV1.2', name: 'Черга 1.2' },
+			schedule: { '2025-12-17': { ranges: [], source: 'fact' } },
+			updateFact: '17.12.2025 14:00',
+			extractedAt: Date.now(),
+			ageMs: 0,
+			stale: false,
+		};
+
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: true,
+			status: 200,
+			json: async () => mockResponse,
+		});
+
+		const result = await fetchGroupSchedule('oem', 'GPV1.2');
+
+		expect(global.fetch).toHaveBeenCalledWith('/api/schedule?region=oem&group=GPV1.2');
+		expect(result).toEqual({ ok: true, value: mockResponse });
+	});
+
+	it('returns NOT_FOUND with suggestions for an unknown group', async () => {
+		(global.fetch as any).mockResolvedValueOnce({
+			ok: false,
+			status: 404,
+			json: async () => ({
+				error: 'GROUP_NOT_FOUND',
+				message: 'Чергу не знайдено',
+				suggestions: ['GPV1.2'],
+			}),
+		});
+
+		const result = await fetchGroupSchedule('oem', 'GPV1.7');
+
+		expect(!result.ok && result.error).toMatchObject({
+			code: 'NOT_FOUND',
+			message: 'Чергу не знайдено. Можливо, ви мали на увазі: GPV1.2?',
+			suggestions: ['GPV1.2'],
+		});
+	});
+});
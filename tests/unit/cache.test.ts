@@ -133,6 +133,148 @@ describe('TtlCache', () => {
 		});
 	});
 
+	describe('LRU eviction', () => {
+		it('should evict the least recently set entry beyond maxEntries', () => {
+			const cache = new TtlCache<string>(1000, { maxEntries: 2 });
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+			cache.set('c', '3');
+
+			expect(cache.has('a')).toBe(false);
+			expect(cache.get('b')).toBe('2');
+			expect(cache.get('c')).toBe('3');
+			expect(cache.stats().evictions).toBe(1);
+		});
+
+		it('should treat reads as recent use', () => {
+			const cache = new TtlCache<string>(1000, { maxEntries: 2 });
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+			cache.get('a');
+			cache.set('c', '3');
+
+			expect(cache.has('a')).toBe(true);
+			expect(cache.has('b')).toBe(false);
+		});
+
+		it('should treat overwrites as recent use', () => {
+			const cache = new TtlCache<string>(1000, { maxEntries: 2 });
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+			cache.set('a', '1b');
+			cache.set('c', '3');
+
+			expect(cache.get('a')).toBe('1b');
+			expect(cache.has('b')).toBe(false);
+		});
+
+		it('should drop expired entries before evicting live ones', () => {
+			const cache = new TtlCache<string>(10_000, { maxEntries: 2 });
+
+			cache.set('live', '1');
+			cache.set('short', '2', 100);
+			vi.advanceTimersByTime(200);
+			cache.set('new', '3');
+
+			expect(cache.get('live')).toBe('1');
+			expect(cache.get('new')).toBe('3');
+			expect(cache.stats()).toMatchObject({ evictions: 0, expirations: 1 });
+		});
+	});
+
+	describe('sweeping', () => {
+		it('should remove expired entries that are never read again', () => {
+			const cache = new TtlCache<string>(1000, { sweepIntervalMs: 5000 });
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+			vi.advanceTimersByTime(5000);
+			cache.set('c', '3');
+
+			expect(cache.size).toBe(1);
+			expect(cache.stats().expirations).toBe(2);
+		});
+
+		it('should not sweep before the interval', () => {
+			const cache = new TtlCache<string>(1000, { sweepIntervalMs: 5000 });
+
+			cache.set('a', '1');
+			vi.advanceTimersByTime(2000);
+			cache.set('b', '2');
+
+			expect(cache.size).toBe(2);
+		});
+
+		it('should sweep on demand', () => {
+			const cache = new TtlCache<string>(1000);
+
+			cache.set('a', '1');
+			cache.set('b', '2', 5000);
+			vi.advanceTimersByTime(1500);
+
+			expect(cache.sweep()).toBe(1);
+			expect(cache.size).toBe(1);
+		});
+	});
+
+	describe('has/delete/clear', () => {
+		it('should report presence without counting a hit', () => {
+			const cache = new TtlCache<string>(1000);
+
+			cache.set('key', 'value');
+
+			expect(cache.has('key')).toBe(true);
+			expect(cache.has('missing')).toBe(false);
+			expect(cache.stats()).toMatchObject({ hits: 0, misses: 0 });
+		});
+
+		it('should not report expired entries', () => {
+			const cache = new TtlCache<string>(1000);
+
+			cache.set('key', 'value');
+			vi.advanceTimersByTime(1000);
+
+			expect(cache.has('key')).toBe(false);
+		});
+
+		it('should delete single entries and clear all', () => {
+			const cache = new TtlCache<string>(1000);
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+
+			expect(cache.delete('a')).toBe(true);
+			expect(cache.delete('a')).toBe(false);
+			expect(cache.get('b')).toBe('2');
+
+			cache.clear();
+			expect(cache.size).toBe(0);
+		});
+	});
+
+	describe('stats', () => {
+		it('should count hits and misses, including expired reads', () => {
+			const cache = new TtlCache<string>(1000);
+
+			cache.set('key', 'value');
+			cache.get('key');
+			cache.get('missing');
+			vi.advanceTimersByTime(1000);
+			cache.get('key');
+
+			expect(cache.stats()).toEqual({
+				size: 0,
+				hits: 1,
+				misses: 2,
+				evictions: 0,
+				expirations: 1,
+			});
+		});
+	});
+
 	describe('complex data types', () => {
 		it('should handle objects', () => {
 			const cache = new TtlCache<{ name: string; age: number }>(1000);
@@ -3,6 +3,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
 import {
 	CookieJar,
 	fetchTemplate,
@@ -10,8 +12,10 @@ import {
 	getBaseUrl,
 	getTemplateUrl,
 	getAjaxUrl,
+	isWafChallenge,
 	USER_AGENT,
 } from '$lib/server/dtek/client';
+import { _resetRegionLimiters } from '$lib/server/dtek/rate-limiter';
 import type { DtekStatusResponse } from '$lib/types';
 
 describe('CookieJar', () => {
@@ -153,6 +157,103 @@ describe('CookieJar', () => {
 		});
 	});
 
+	describe('cookie attributes', () => {
+		const NOW = new Date('2025-12-17T13:00:00Z').getTime();
+
+		it('should expire cookies after Max-Age', () => {
+			jar.absorb(['incap_ses_1=abc; Max-Age=60; Path=/'], NOW);
+			expect(jar.getHeader(NOW + 59_000)).toBe('incap_ses_1=abc');
+			expect(jar.getHeader(NOW + 60_000)).toBe('');
+		});
+
+		it('should expire cookies after Expires', () => {
+			jar.absorb(['a=1; Expires=Wed, 17 Dec 2025 13:30:00 GMT'], NOW);
+			expect(jar.getHeader(NOW)).toBe('a=1');
+			expect(jar.getHeader(NOW + 30 * 60 * 1000)).toBe('');
+		});
+
+		it('should prefer Max-Age over Expires', () => {
+			jar.absorb(['a=1; Expires=Wed, 17 Dec 2025 13:30:00 GMT; Max-Age=10'], NOW);
+			expect(jar.toStored(NOW)[0].expiresAt).toBe(NOW + 10_000);
+		});
+
+		it('should delete a cookie on Max-Age=0 or past Expires', () => {
+			jar.absorb(['a=1; Path=/', 'b=2; Path=/'], NOW);
+			jar.absorb(['a=; Max-Age=0; Path=/', 'b=; Expires=Thu, 01 Jan 1970 00:00:00 GMT'], NOW);
+			expect(jar.size).toBe(0);
+		});
+
+		it('should keep cookies with the same name but different paths apart', () => {
+			jar.absorb(['a=root; Path=/', 'a=ua; Path=/ua'], NOW);
+			expect(jar.size).toBe(2);
+		});
+
+		it('should parse domain, path and flags', () => {
+			jar.absorb(['s=1; Domain=.dtek-oem.com.ua; Path=/ua; Secure; HttpOnly; SameSite=Lax'], NOW);
+			expect(jar.toStored(NOW)).toEqual([
+				{
+					name: 's',
+					value: '1',
+					domain: 'dtek-oem.com.ua',
+					path: '/ua',
+					secure: true,
+					httpOnly: true,
+					sameSite: 'Lax',
+				},
+			]);
+		});
+
+		it('should ignore invalid Max-Age and Expires values', () => {
+			jar.absorb(['a=1; Max-Age=soon; Expires=never'], NOW);
+			expect(jar.toStored(NOW)[0].expiresAt).toBeUndefined();
+		});
+
+		it('should not send expired cookies in filtered header', () => {
+			jar.absorb(['dtek-oem=s; Path=/', 'incap_ses_1=x; Max-Age=60'], NOW);
+			expect(jar.getFiltered('oem', NOW + 120_000)).toBe('dtek-oem=s');
+		});
+
+		it('should report when the first session cookie expires', () => {
+			jar.absorb(
+				[
+					'dtek-oem=s; Path=/',
+					'incap_ses_1=x; Max-Age=600',
+					'visid_incap_1=y; Max-Age=86400',
+					'_ga=z; Max-Age=5',
+				],
+				NOW
+			);
+			expect(jar.getSessionExpiresAt('oem')).toBe(NOW + 600_000);
+		});
+	});
+
+	describe('fromString()', () => {
+		it('should split on semicolons regardless of whitespace', () => {
+			const restored = CookieJar.fromString('a=1;b=2;  c=3');
+			expect(restored.getHeader()).toBe('a=1; b=2; c=3');
+		});
+	});
+
+	describe('fromStored()', () => {
+		it('should round-trip cookies with attributes', () => {
+			jar.absorb(['incap_ses_1=x; Max-Age=600; Domain=dtek-oem.com.ua', 'dtek-oem=s']);
+			const restored = CookieJar.fromStored(jar.toStored());
+			expect(restored.toStored()).toEqual(jar.toStored());
+		});
+
+		it('should accept the legacy cookie string format', () => {
+			const restored = CookieJar.fromStored('dtek-oem=s; _language=uk');
+			expect(restored.getFiltered('oem')).toBe('dtek-oem=s; _language=uk');
+		});
+
+		it('should drop expired cookies loaded from storage', () => {
+			const restored = CookieJar.fromStored([
+				{ name: 'a', value: '1', path: '/', expiresAt: Date.now() - 1000 },
+			]);
+			expect(restored.getHeader()).toBe('');
+		});
+	});
+
 	describe('clear()', () => {
 		it('should remove all cookies', () => {
 			jar.absorb(['a=1; Path=/', 'b=2; Path=/', 'c=3; Path=/']);
@@ -269,6 +370,7 @@ describe('fetchTemplate()', () => {
 describe('fetchBuildingStatuses()', () => {
 	beforeEach(() => {
 		vi.stubGlobal('fetch', vi.fn());
+		_resetRegionLimiters();
 	});
 
 	afterEach(() => {
@@ -483,6 +585,214 @@ describe('fetchBuildingStatuses()', () => {
 			expect(result.value.data).toEqual({});
 		}
 	});
+
+	it.each([400, 403, 419])('should return SessionError for HTTP %i', async (status) => {
+		const mockFetch = vi.mocked(fetch);
+		mockFetch.mockResolvedValueOnce(new Response('Forbidden', { status }));
+
+		const result = await fetchBuildingStatuses({
+			region: 'oem',
+			city: 'м. Одеса',
+			street: 'вул. Педагогічна',
+			updateFact: '11.12.2025 20:51',
+			csrf: 'stale-csrf',
+			cookies: new CookieJar(),
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('SESSION_ERROR');
+			if (result.error.code === 'SESSION_ERROR') {
+				expect(result.error.reason).toBe('invalid');
+				expect(result.error.httpStatus).toBe(status);
+			}
+		}
+	});
+
+	it('should return SessionError when HTML is returned instead of JSON', async () => {
+		const mockFetch = vi.mocked(fetch);
+		mockFetch.mockResolvedValueOnce(
+			new Response('<!DOCTYPE html><html><body>DTEK</body></html>', {
+				status: 200,
+				headers: new Headers({ 'content-type': 'text/html; charset=UTF-8' }),
+			})
+		);
+
+		const result = await fetchBuildingStatuses({
+			region: 'oem',
+			city: 'м. Одеса',
+			street: 'вул. Педагогічна',
+			updateFact: '11.12.2025 20:51',
+			csrf: 'stale-csrf',
+			cookies: new CookieJar(),
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('SESSION_ERROR');
+		}
+	});
+
+	it('should keep NetworkError for server errors', async () => {
+		const mockFetch = vi.mocked(fetch);
+		mockFetch.mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }));
+
+		const result = await fetchBuildingStatuses({
+			region: 'oem',
+			city: 'м. Одеса',
+			street: 'вул. Педагогічна',
+			updateFact: '11.12.2025 20:51',
+			csrf: 'csrf',
+			cookies: new CookieJar(),
+		});
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('NETWORK_ERROR');
+		}
+	});
+
+	describe('unusable answers', () => {
+		const request = () =>
+			fetchBuildingStatuses({
+				region: 'oem',
+				city: 'м. Одеса',
+				street: 'вул. Педагогічна',
+				updateFact: '11.12.2025 20:51',
+				csrf: 'csrf',
+				cookies: new CookieJar(),
+			});
+
+		const respond = (body: unknown) =>
+			vi.mocked(fetch).mockResolvedValueOnce(
+				new Response(JSON.stringify(body), {
+					status: 200,
+					headers: new Headers({ 'content-type': 'application/json' }),
+				})
+			);
+
+		it('should return UpstreamRejectedError for result:false', async () => {
+			respond({ result: false, data: {} });
+
+			const result = await request();
+
+			expect(!result.ok && result.error).toMatchObject({
+				code: 'UPSTREAM_REJECTED',
+				reason: 'result_false',
+				region: 'oem',
+				updateFact: '11.12.2025 20:51',
+			});
+		});
+
+		it('should return UpstreamRejectedError for data older than updateFact', async () => {
+			respond({ result: true, data: {}, updateTimestamp: '18:00 11.12.2025' });
+
+			const result = await request();
+
+			expect(!result.ok && result.error).toMatchObject({
+				code: 'UPSTREAM_REJECTED',
+				reason: 'update_mismatch',
+				updateTimestamp: '18:00 11.12.2025',
+			});
+		});
+
+		it('should accept data newer than updateFact', async () => {
+			respond({ result: true, data: {}, updateTimestamp: '08:15 12.12.2025' });
+
+			const result = await request();
+
+			expect(result.ok && result.value.updateTimestamp).toBe('08:15 12.12.2025');
+		});
+
+		it('should ignore an updateTimestamp in an unknown format', async () => {
+			respond({ result: true, data: {}, updateTimestamp: 'yesterday' });
+
+			const result = await request();
+
+			expect(result.ok).toBe(true);
+		});
+	});
+
+	describe('bot protection', () => {
+		const challengeHtml = readFileSync(
+			resolve(__dirname, '../fixtures/dtek/challenge.html'),
+			'utf-8'
+		);
+
+		const request = () =>
+			fetchBuildingStatuses({
+				region: 'oem',
+				city: 'м. Одеса',
+				street: 'вул. Педагогічна',
+				updateFact: '11.12.2025 20:51',
+				csrf: 'csrf',
+				cookies: new CookieJar(),
+			});
+
+		it.each([200, 403])(
+			'should return BlockedError for a challenge page with HTTP %i',
+			async (status) => {
+				vi.mocked(fetch).mockResolvedValueOnce(
+					new Response(challengeHtml, {
+						status,
+						headers: new Headers({ 'content-type': 'text/html' }),
+					})
+				);
+
+				const result = await request();
+
+				expect(!result.ok && result.error).toMatchObject({
+					code: 'BLOCKED',
+					reason: 'challenge',
+					httpStatus: status,
+					region: 'oem',
+					incidentId: '123000450012345678-123456789012345678',
+				});
+			}
+		);
+
+		it('should tell a CAPTCHA from a plain challenge', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(
+				new Response(
+					'<html><script src="/_Incapsula_Resource?SWJIYLWA=1"></script><div class="g-recaptcha"></div></html>',
+					{ status: 200 }
+				)
+			);
+
+			const result = await request();
+
+			expect(!result.ok && result.error).toMatchObject({ code: 'BLOCKED', reason: 'captcha' });
+		});
+
+		it('should return BlockedError for HTTP 429', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce(new Response('Too Many Requests', { status: 429 }));
+
+			const result = await request();
+
+			expect(!result.ok && result.error).toMatchObject({
+				code: 'BLOCKED',
+				reason: 'too_many_requests',
+			});
+		});
+	});
+});
+
+describe('isWafChallenge()', () => {
+	it('should detect Incapsula challenge iframe', () => {
+		const html =
+			'<html><body><iframe id="main-iframe" src="/_Incapsula_Resource?SWUDNSAI=31"></iframe></body></html>';
+		expect(isWafChallenge(html)).toBe(true);
+	});
+
+	it('should detect Incapsula incident page', () => {
+		expect(isWafChallenge('Request unsuccessful. Incapsula incident ID: 123-456')).toBe(true);
+	});
+
+	it('should not flag regular DTEK page', () => {
+		const html =
+			'<html><head><meta name="csrf-token" content="abc"></head><script>DisconSchedule.fact = {}</script></html>';
+		expect(isWafChallenge(html)).toBe(false);
+	});
 });
 
 describe('URL generators', () => {
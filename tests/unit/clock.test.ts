@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { appClock, fixedClock, setAppClock, shiftedClock, systemClock } from '$lib/utils/clock';
+import { parseTimeTravelParam, initTimeTravel, timeTravelStore } from '$lib/stores/clock';
+import { getTrafficLightFromSchedule, getCurrentRangeInfo } from '$lib/utils/schedule';
+import { formatRelativeTime } from '$lib/utils/date-formatter';
+import type { ScheduleRange } from '$lib/types/dtek';
+
+afterEach(() => {
+	setAppClock(null);
+	vi.useRealTimers();
+});
+
+describe('clocks', () => {
+	it('fixedClock always returns the same instant', () => {
+		const clock = fixedClock('2025-12-17T13:00:00Z');
+		expect(clock.now().toISOString()).toBe('2025-12-17T13:00:00.000Z');
+		expect(clock.now()).not.toBe(clock.now());
+	});
+
+	it('shiftedClock starts at the instant and keeps ticking', () => {
+		vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+		const clock = shiftedClock(new Date('2025-12-17T21:45:00Z'));
+
+		expect(clock.now().toISOString()).toBe('2025-12-17T21:45:00.000Z');
+		vi.setSystemTime(new Date('2026-01-01T00:10:00Z'));
+		expect(clock.now().toISOString()).toBe('2025-12-17T21:55:00.000Z');
+	});
+
+	it('appClock delegates to the override until reset', () => {
+		setAppClock(fixedClock('2025-12-17T13:00:00Z'));
+		expect(appClock.now().toISOString()).toBe('2025-12-17T13:00:00.000Z');
+
+		setAppClock(null);
+		expect(Math.abs(appClock.now().getTime() - systemClock.now().getTime())).toBeLessThan(1000);
+	});
+});
+
+describe('schedule utilities with a clock', () => {
+	const ranges: ScheduleRange[] = [
+		{ from: 0, to: 23.5, status: 'yes' },
+		{ from: 23.5, to: 24, status: 'no' },
+	];
+
+	it('evaluates the schedule at the clock instant (Kyiv time)', () => {
+		// 21:45 UTC = 23:45 Kyiv
+		const clock = fixedClock('2025-12-17T21:45:00Z');
+		expect(getTrafficLightFromSchedule(ranges, clock)).toBe('off');
+		expect(getCurrentRangeInfo(ranges, clock)).toBe('23:30-24:00');
+	});
+
+	it('defaults to the app clock', () => {
+		setAppClock(fixedClock('2025-12-17T10:00:00Z'));
+		expect(getTrafficLightFromSchedule(ranges)).toBe('on');
+	});
+
+	it('formats relative time against the clock', () => {
+		const clock = fixedClock('2025-12-17T13:00:00Z');
+		expect(formatRelativeTime(Date.parse('2025-12-17T12:55:00Z'), clock)).toBe('5 хв тому');
+	});
+});
+
+describe('parseTimeTravelParam', () => {
+	it('reads values without offset as Kyiv wall time', () => {
+		expect(parseTimeTravelParam('2025-12-17T23:45')?.toISOString()).toBe(
+			'2025-12-17T21:45:00.000Z'
+		);
+		expect(parseTimeTravelParam('2025-07-01T12:00:30')?.toISOString()).toBe(
+			'2025-07-01T09:00:00.000Z'
+		);
+	});
+
+	it('respects explicit offsets', () => {
+		expect(parseTimeTravelParam('2025-12-17T23:45Z')?.toISOString()).toBe(
+			'2025-12-17T23:45:00.000Z'
+		);
+		expect(parseTimeTravelParam('2025-12-17T23:45+01:00')?.toISOString()).toBe(
+			'2025-12-17T22:45:00.000Z'
+		);
+	});
+
+	it('returns null for invalid values', () => {
+		expect(parseTimeTravelParam('tomorrow')).toBeNull();
+		expect(parseTimeTravelParam('2025-12-17')).toBeNull();
+		expect(parseTimeTravelParam('2025-12-17T23:45garbage')).toBeNull();
+	});
+});
+
+describe('initTimeTravel', () => {
+	it('shifts the app clock to ?now=', () => {
+		initTimeTravel(new URL('http://localhost/?now=2025-12-17T23:45'));
+
+		expect(get(timeTravelStore)?.toISOString()).toBe('2025-12-17T21:45:00.000Z');
+		expect(Math.abs(appClock.now().getTime() - Date.parse('2025-12-17T21:45:00Z'))).toBeLessThan(
+			1000
+		);
+	});
+
+	it('uses real time without ?now=', () => {
+		initTimeTravel(new URL('http://localhost/?now=2025-12-17T23:45'));
+		initTimeTravel(new URL('http://localhost/'));
+
+		expect(get(timeTravelStore)).toBeNull();
+		expect(Math.abs(appClock.now().getTime() - Date.now())).toBeLessThan(1000);
+	});
+
+	it('ignores invalid ?now= values', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		initTimeTravel(new URL('http://localhost/?now=yesterday'));
+
+		expect(get(timeTravelStore)).toBeNull();
+		expect(warn).toHaveBeenCalledWith('[Clock] Ignoring invalid ?now=yesterday');
+		warn.mockRestore();
+	});
+});
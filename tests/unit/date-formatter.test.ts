@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { formatRelativeTime, parseDtekDate, formatUkrainianDate } from '$lib/utils/date-formatter';
+import {
+	formatCountdown,
+	formatRelativeTime,
+	formatStaleAge,
+	formatUkrainianDate,
+} from '$lib/utils/date-formatter';
+import { parseDtekDate } from '$lib/utils/kyiv-time';
+import { fixedClock } from '$lib/utils/clock';
 
 describe('formatRelativeTime', () => {
 	beforeEach(() => {
@@ -53,76 +60,67 @@ describe('formatRelativeTime', () => {
 	});
 });
 
-describe('parseDtekDate', () => {
-	it('parses valid DTEK date format correctly', () => {
-		const result = parseDtekDate('14:30 17.12.2025');
-		expect(result.getFullYear()).toBe(2025);
-		expect(result.getMonth()).toBe(11); // December (0-indexed)
-		expect(result.getDate()).toBe(17);
-		expect(result.getHours()).toBe(14);
-		expect(result.getMinutes()).toBe(30);
-	});
+describe('formatStaleAge', () => {
+	const now = new Date('2025-12-17T12:00:00Z').getTime();
+	const clock = fixedClock(new Date(now));
 
-	it('parses date with leading zeros', () => {
-		const result = parseDtekDate('09:05 05.01.2025');
-		expect(result.getFullYear()).toBe(2025);
-		expect(result.getMonth()).toBe(0); // January (0-indexed)
-		expect(result.getDate()).toBe(5);
-		expect(result.getHours()).toBe(9);
-		expect(result.getMinutes()).toBe(5);
+	it('returns minutes for data less than an hour old', () => {
+		expect(formatStaleAge(now - 7 * 60 * 1000, clock)).toBe('дані застаріли 7 хв');
 	});
 
-	it('throws error for invalid format (missing time)', () => {
-		expect(() => parseDtekDate('17.12.2025')).toThrow('Invalid DTEK date format');
+	it('never reports zero minutes', () => {
+		expect(formatStaleAge(now - 10 * 1000, clock)).toBe('дані застаріли 1 хв');
 	});
 
-	it('throws error for invalid format (missing date)', () => {
-		expect(() => parseDtekDate('14:30')).toThrow('Invalid DTEK date format');
+	it('returns hours and days for older data', () => {
+		expect(formatStaleAge(now - 3 * 60 * 60 * 1000, clock)).toBe('дані застаріли 3 год');
+		expect(formatStaleAge(now - 2 * 24 * 60 * 60 * 1000, clock)).toBe('дані застаріли 2 дн');
 	});
+});
 
-	it('throws error for invalid time format', () => {
-		expect(() => parseDtekDate('25:70 17.12.2025')).toThrow('Invalid date values');
-	});
+describe('formatCountdown', () => {
+	const now = new Date('2025-12-17T12:00:00Z').getTime();
+	const clock = fixedClock(new Date(now));
 
-	it('throws error for invalid date format', () => {
-		expect(() => parseDtekDate('14:30 32.13.2025')).toThrow('Invalid date values');
+	it('returns minutes, rounding up and never zero', () => {
+		expect(formatCountdown(now + 44 * 60 * 1000 + 10 * 1000, clock)).toBe('45 хв');
+		expect(formatCountdown(now - 1000, clock)).toBe('1 хв');
 	});
 
-	it('throws error for non-numeric values', () => {
-		expect(() => parseDtekDate('ab:cd ef.gh.ijkl')).toThrow('Invalid date values');
-	});
-
-	it('handles dates at edge of valid ranges', () => {
-		const result = parseDtekDate('23:59 31.12.2025');
-		expect(result.getFullYear()).toBe(2025);
-		expect(result.getMonth()).toBe(11);
-		expect(result.getDate()).toBe(31);
-		expect(result.getHours()).toBe(23);
-		expect(result.getMinutes()).toBe(59);
+	it('returns hours with minutes and days with hours', () => {
+		expect(formatCountdown(now + (2 * 60 + 15) * 60 * 1000, clock)).toBe('2 год 15 хв');
+		expect(formatCountdown(now + 3 * 60 * 60 * 1000, clock)).toBe('3 год');
+		expect(formatCountdown(now + 27 * 60 * 60 * 1000, clock)).toBe('1 дн 3 год');
 	});
 });
 
 describe('formatUkrainianDate', () => {
 	it('formats date correctly with Ukrainian month name', () => {
-		const date = new Date(2025, 11, 17, 14, 30); // December 17, 2025, 14:30
+		const date = new Date('2025-12-17T12:30:00Z'); // December 17, 2025, 14:30 Kyiv
 		expect(formatUkrainianDate(date)).toBe('17 грудня 2025, 14:30');
 	});
 
 	it('formats date with different month correctly', () => {
-		const date = new Date(2025, 0, 5, 9, 5); // January 5, 2025, 09:05
+		const date = new Date('2025-01-05T07:05:00Z'); // January 5, 2025, 09:05 Kyiv
 		expect(formatUkrainianDate(date)).toBe('5 січня 2025, 09:05');
 	});
 
 	it('formats date with padding for single-digit minutes', () => {
-		const date = new Date(2025, 5, 10, 8, 3); // June 10, 2025, 08:03
+		const date = new Date('2025-06-10T05:03:00Z'); // June 10, 2025, 08:03 Kyiv (summer time)
 		expect(formatUkrainianDate(date)).toBe('10 червня 2025, 08:03');
 	});
 
 	it('formats date with padding for single-digit hours', () => {
-		const date = new Date(2025, 3, 15, 5, 45); // April 15, 2025, 05:45
+		const date = new Date('2025-04-15T02:45:00Z'); // April 15, 2025, 05:45 Kyiv (summer time)
 		expect(formatUkrainianDate(date)).toBe('15 квітня 2025, 05:45');
 	});
 
+	it('formats in Kyiv time regardless of host timezone', () => {
+		// 22:30 UTC on Dec 31 is already 00:30 on Jan 1 in Kyiv
+		const date = new Date('2025-12-31T22:30:00Z');
+		expect(formatUkrainianDate(date)).toBe('1 січня 2026, 00:30');
+	});
+
 	it('formats all months correctly', () => {
 		const expectedMonths = [
 			'січня',
@@ -140,7 +138,7 @@ describe('formatUkrainianDate', () => {
 		];
 
 		expectedMonths.forEach((month, index) => {
-			const date = new Date(2025, index, 1, 12, 0);
+			const date = new Date(Date.UTC(2025, index, 1, 9, 0)); // Midday in Kyiv
 			const formatted = formatUkrainianDate(date);
 			expect(formatted).toContain(month);
 		});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { fixedClock } from '$lib/utils/clock';
+import {
+	kyivNow,
+	getKyivOffsetMinutes,
+	kyivWallTimeToInstant,
+	getKyivDateString,
+	getKyivDayOfWeek,
+	addDaysToDate,
+	getDayOfWeekForDate,
+	getUpcomingDates,
+	formatDayMonth,
+	getKyivTimeAsFloat,
+	kyivFloatHourToInstant,
+	parseDtekDate,
+} from '$lib/utils/kyiv-time';
+
+// 2026 transitions: clocks go forward 29.03 at 03:00 (01:00 UTC),
+// back 25.10 at 04:00 (01:00 UTC)
+const SPRING_FORWARD = '2026-03-29';
+const FALL_BACK = '2026-10-25';
+
+describe('kyivNow', () => {
+	it('kyivNow reads wall-clock fields from the clock', () => {
+		expect(kyivNow(fixedClock('2025-12-17T13:05:09Z'))).toEqual({
+			year: 2025,
+			month: 12,
+			day: 17,
+			hours: 15,
+			minutes: 5,
+			seconds: 9,
+			dayOfWeek: 3,
+		});
+	});
+});
+
+describe('getKyivOffsetMinutes', () => {
+	it('is +2h in winter and +3h in summer', () => {
+		expect(getKyivOffsetMinutes(new Date('2025-12-17T12:00:00Z'))).toBe(120);
+		expect(getKyivOffsetMinutes(new Date('2025-07-01T12:00:00Z'))).toBe(180);
+	});
+
+	it('switches exactly at 01:00 UTC on transition days', () => {
+		expect(getKyivOffsetMinutes(new Date('2026-03-29T00:59:00Z'))).toBe(120);
+		expect(getKyivOffsetMinutes(new Date('2026-03-29T01:00:00Z'))).toBe(180);
+		expect(getKyivOffsetMinutes(new Date('2026-10-25T00:59:00Z'))).toBe(180);
+		expect(getKyivOffsetMinutes(new Date('2026-10-25T01:00:00Z'))).toBe(120);
+	});
+});
+
+describe('kyivWallTimeToInstant', () => {
+	it('converts winter and summer wall times', () => {
+		expect(kyivWallTimeToInstant(2025, 12, 17, 14, 30).toISOString()).toBe(
+			'2025-12-17T12:30:00.000Z'
+		);
+		expect(kyivWallTimeToInstant(2025, 7, 1, 14, 30).toISOString()).toBe(
+			'2025-07-01T11:30:00.000Z'
+		);
+	});
+
+	it('handles times around the March transition', () => {
+		expect(kyivWallTimeToInstant(2026, 3, 29, 2, 30).toISOString()).toBe(
+			'2026-03-29T00:30:00.000Z'
+		);
+		expect(kyivWallTimeToInstant(2026, 3, 29, 4, 0).toISOString()).toBe('2026-03-29T01:00:00.000Z');
+	});
+
+	it('shifts skipped March wall times forward by an hour', () => {
+		// 03:30 does not exist on 29.03.2026 - resolves to 04:30 summer time
+		expect(kyivWallTimeToInstant(2026, 3, 29, 3, 30).toISOString()).toBe(
+			'2026-03-29T01:30:00.000Z'
+		);
+	});
+
+	it('resolves repeated October wall times to the first occurrence', () => {
+		// 03:30 happens twice on 25.10.2026 - first in summer time (+3)
+		expect(kyivWallTimeToInstant(2026, 10, 25, 3, 30).toISOString()).toBe(
+			'2026-10-25T00:30:00.000Z'
+		);
+		expect(kyivWallTimeToInstant(2026, 10, 25, 5, 0).toISOString()).toBe(
+			'2026-10-25T03:00:00.000Z'
+		);
+	});
+});
+
+describe('calendar dates', () => {
+	it('uses the Kyiv date near midnight', () => {
+		// 22:30 UTC is already the next day in Kyiv
+		expect(getKyivDateString(new Date('2025-12-16T22:30:00Z'))).toBe('2025-12-17');
+		expect(getKyivDayOfWeek(new Date('2025-12-16T22:30:00Z'))).toBe('3');
+	});
+
+	it('adds days across month, year and DST boundaries', () => {
+		expect(addDaysToDate('2025-12-31', 1)).toBe('2026-01-01');
+		expect(addDaysToDate('2026-03-01', -1)).toBe('2026-02-28');
+		expect(addDaysToDate(SPRING_FORWARD, 1)).toBe('2026-03-30');
+		expect(addDaysToDate(FALL_BACK, 1)).toBe('2026-10-26');
+	});
+
+	it('gets day of week for ISO dates', () => {
+		expect(getDayOfWeekForDate('2025-12-15')).toBe('1');
+		expect(getDayOfWeekForDate('2025-12-21')).toBe('7');
+	});
+
+	it('lists a week of upcoming dates across the March transition', () => {
+		// Saturday 28.03.2026 23:30 Kyiv; the next day has only 23 hours
+		expect(getUpcomingDates(new Date('2026-03-28T21:30:00Z'))).toEqual([
+			'2026-03-28',
+			SPRING_FORWARD,
+			'2026-03-30',
+			'2026-03-31',
+			'2026-04-01',
+			'2026-04-02',
+			'2026-04-03',
+		]);
+	});
+
+	it('lists dates across the October transition without repeats', () => {
+		// Saturday 24.10.2026 23:30 Kyiv; the next day has 25 hours
+		expect(getUpcomingDates(new Date('2026-10-24T20:30:00Z'), 3)).toEqual([
+			'2026-10-24',
+			FALL_BACK,
+			'2026-10-26',
+		]);
+	});
+
+	it('formats ISO date as DD.MM', () => {
+		expect(formatDayMonth('2025-01-05')).toBe('05.01');
+	});
+});
+
+describe('float hours', () => {
+	it('gets Kyiv time of day as float', () => {
+		expect(getKyivTimeAsFloat(new Date('2025-12-17T12:30:00Z'))).toBe(14.5);
+		expect(getKyivTimeAsFloat(new Date('2025-07-01T12:30:00Z'))).toBe(15.5);
+	});
+
+	it('converts date and float hour to an instant', () => {
+		expect(kyivFloatHourToInstant('2025-12-17', 9.5).toISOString()).toBe(
+			'2025-12-17T07:30:00.000Z'
+		);
+	});
+
+	it('treats hour 24 as midnight of the next day', () => {
+		expect(kyivFloatHourToInstant('2025-12-17', 24).toISOString()).toBe('2025-12-17T22:00:00.000Z');
+	});
+
+	it('accounts for the shorter March day', () => {
+		// Midnight to 04:00 on 29.03.2026 is only 3 real hours
+		const start = kyivFloatHourToInstant(SPRING_FORWARD, 0).getTime();
+		const end = kyivFloatHourToInstant(SPRING_FORWARD, 4).getTime();
+		expect((end - start) / 3_600_000).toBe(3);
+	});
+
+	it('accounts for the longer October day', () => {
+		const start = kyivFloatHourToInstant(FALL_BACK, 0).getTime();
+		const end = kyivFloatHourToInstant(FALL_BACK, 24).getTime();
+		expect((end - start) / 3_600_000).toBe(25);
+	});
+});
+
+describe('parseDtekDate', () => {
+	it('parses DTEK date as Kyiv local time', () => {
+		expect(parseDtekDate('14:30 17.12.2025').toISOString()).toBe('2025-12-17T12:30:00.000Z');
+	});
+
+	it('parses summer dates with the summer offset', () => {
+		expect(parseDtekDate('09:05 05.07.2025').toISOString()).toBe('2025-07-05T06:05:00.000Z');
+	});
+
+	it('parses times on both sides of the March transition', () => {
+		expect(parseDtekDate('02:00 29.03.2026').toISOString()).toBe('2026-03-29T00:00:00.000Z');
+		expect(parseDtekDate('05:00 29.03.2026').toISOString()).toBe('2026-03-29T02:00:00.000Z');
+	});
+
+	it('parses times on both sides of the October transition', () => {
+		expect(parseDtekDate('02:00 25.10.2026').toISOString()).toBe('2026-10-24T23:00:00.000Z');
+		expect(parseDtekDate('05:00 25.10.2026').toISOString()).toBe('2026-10-25T03:00:00.000Z');
+	});
+
+	it('handles dates at edge of valid ranges', () => {
+		expect(parseDtekDate('23:59 31.12.2025').toISOString()).toBe('2025-12-31T21:59:00.000Z');
+	});
+
+	it('throws error for invalid format (missing time)', () => {
+		expect(() => parseDtekDate('17.12.2025')).toThrow('Invalid DTEK date format');
+	});
+
+	it('throws error for invalid format (missing date)', () => {
+		expect(() => parseDtekDate('14:30')).toThrow('Invalid DTEK date format');
+	});
+
+	it('throws error for invalid time format', () => {
+		expect(() => parseDtekDate('25:70 17.12.2025')).toThrow('Invalid date values');
+	});
+
+	it('throws error for invalid date format', () => {
+		expect(() => parseDtekDate('14:30 32.13.2025')).toThrow('Invalid date values');
+	});
+
+	it('throws error for non-numeric values', () => {
+		expect(() => parseDtekDate('ab:cd ef.gh.ijkl')).toThrow('Invalid date values');
+	});
+});
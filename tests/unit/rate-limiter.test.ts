@@ -0,0 +1,125 @@
+/**
+ * Unit tests for outbound DTEK rate limiting
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, type RateLimiterOptions } from '$lib/server/dtek/rate-limiter';
+import { ok, errorToHttpStatus, type RateLimitedError } from '$lib/types';
+
+const OPTIONS: RateLimiterOptions = {
+	ratePerSecond: 1,
+	burst: 2,
+	maxConcurrent: 2,
+	maxQueueSize: 2,
+	maxQueueWaitMs: 5000,
+};
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((r) => (resolve = r));
+	return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('runs requests immediately within the burst', async () => {
+		const limiter = new RateLimiter('oem', OPTIONS);
+		const fn = vi.fn().mockResolvedValue(ok('done'));
+
+		const results = await Promise.all([limiter.run(fn), limiter.run(fn)]);
+
+		expect(results).toEqual([ok('done'), ok('done')]);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it('queues requests beyond the burst until a token refills', async () => {
+		const limiter = new RateLimiter('oem', { ...OPTIONS, maxConcurrent: 5 });
+		const fn = vi.fn().mockResolvedValue(ok('done'));
+
+		await Promise.all([limiter.run(fn), limiter.run(fn)]);
+		const third = limiter.run(fn);
+
+		await vi.advanceTimersByTimeAsync(0);
+		expect(fn).toHaveBeenCalledTimes(2);
+		expect(limiter.queuedCount).toBe(1);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(await third).toEqual(ok('done'));
+		expect(fn).toHaveBeenCalledTimes(3);
+	});
+
+	it('caps concurrent requests and starts the next one on release', async () => {
+		const limiter = new RateLimiter('oem', { ...OPTIONS, burst: 5, maxConcurrent: 1 });
+		const first = deferred<ReturnType<typeof ok<string>>>();
+		const fn = vi.fn().mockReturnValueOnce(first.promise).mockResolvedValue(ok('second'));
+
+		const a = limiter.run(fn);
+		const b = limiter.run(fn);
+
+		await vi.advanceTimersByTimeAsync(0);
+		expect(limiter.activeCount).toBe(1);
+		expect(fn).toHaveBeenCalledTimes(1);
+
+		first.resolve(ok('first'));
+		expect(await a).toEqual(ok('first'));
+		expect(await b).toEqual(ok('second'));
+		expect(limiter.activeCount).toBe(0);
+	});
+
+	it('fails with queue_timeout when no slot frees up in time', async () => {
+		const limiter = new RateLimiter('kem', { ...OPTIONS, burst: 1, ratePerSecond: 0.01 });
+		const fn = vi.fn().mockResolvedValue(ok('done'));
+
+		await limiter.run(fn);
+		const pending = limiter.run(fn);
+		await vi.advanceTimersByTimeAsync(5000);
+		const result = await pending;
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			const error = result.error as RateLimitedError;
+			expect(error.code).toBe('RATE_LIMITED');
+			expect(error.reason).toBe('queue_timeout');
+			expect(error.region).toBe('kem');
+			expect(errorToHttpStatus(error)).toBe(503);
+		}
+		expect(fn).toHaveBeenCalledTimes(1);
+		expect(limiter.queuedCount).toBe(0);
+	});
+
+	it('rejects immediately with queue_full when the queue is at capacity', async () => {
+		const limiter = new RateLimiter('oem', { ...OPTIONS, burst: 1, maxQueueSize: 1 });
+		const fn = vi.fn().mockResolvedValue(ok('done'));
+
+		await limiter.run(fn);
+		const queued = limiter.run(fn);
+		const result = await limiter.run(fn);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			const error = result.error as RateLimitedError;
+			expect(error.reason).toBe('queue_full');
+			expect(error.retryAfterMs).toBeGreaterThanOrEqual(1000);
+			expect(errorToHttpStatus(error)).toBe(429);
+		}
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(await queued).toEqual(ok('done'));
+	});
+
+	it('releases the slot when the operation throws', async () => {
+		const limiter = new RateLimiter('oem', { ...OPTIONS, maxConcurrent: 1 });
+		const fn = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(ok('done'));
+
+		await expect(limiter.run(fn)).rejects.toThrow('boom');
+		expect(limiter.activeCount).toBe(0);
+		expect(await limiter.run(fn)).toEqual(ok('done'));
+	});
+});
@@ -155,6 +155,40 @@ describe('withRetry', () => {
 		});
 	});
 
+	describe('shouldRetry option', () => {
+		it('stops retrying when shouldRetry returns false', async () => {
+			const onRetry = vi.fn();
+			const fn = vi.fn().mockResolvedValue(err({ code: 'FATAL' }));
+
+			const result = await withRetry(fn, {
+				delays: [10, 10],
+				onRetry,
+				shouldRetry: (error) => (error as { code: string }).code !== 'FATAL',
+			});
+
+			expect(result.ok).toBe(false);
+			if (!result.ok) {
+				const retryErr = result.error as RetryError;
+				expect(retryErr.attempts).toBe(1);
+				expect(retryErr.lastError).toEqual({ code: 'FATAL' });
+			}
+			expect(fn).toHaveBeenCalledTimes(1);
+			expect(onRetry).not.toHaveBeenCalled();
+		});
+
+		it('keeps retrying errors that shouldRetry accepts', async () => {
+			const fn = vi
+				.fn()
+				.mockResolvedValueOnce(err({ code: 'TRANSIENT' }))
+				.mockResolvedValueOnce(ok('recovered'));
+
+			const result = await withRetry(fn, { delays: [10], shouldRetry: () => true });
+
+			expect(result).toEqual(ok('recovered'));
+			expect(fn).toHaveBeenCalledTimes(2);
+		});
+	});
+
 	describe('timing', () => {
 		it('respects delay timing between retries', async () => {
 			const start = Date.now();
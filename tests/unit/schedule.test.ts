@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { resolveBuildingState } from '$lib/utils/schedule';
+import { fixedClock } from '$lib/utils/clock';
+import type { DaySchedule } from '$lib/types/dtek';
+
+describe('resolveBuildingState', () => {
+	// 17.12.2025 15:00 Kyiv
+	const clock = fixedClock('2025-12-17T13:00:00Z');
+
+	const schedule: Record<string, DaySchedule> = {
+		'2025-12-17': {
+			ranges: [
+				{ from: 0, to: 14, status: 'yes' },
+				{ from: 14, to: 16, status: 'no' },
+				{ from: 16, to: 18, status: 'first' },
+				{ from: 18, to: 24, status: 'maybe' },
+			],
+			source: 'fact',
+		},
+		'2025-12-18': {
+			ranges: [
+				{ from: 0, to: 6, status: 'maybe' },
+				{ from: 6, to: 24, status: 'yes' },
+			],
+			source: 'preset',
+		},
+	};
+
+	it('resolves the state from today’s schedule and finds the next different state', () => {
+		const result = resolveBuildingState({ group: 'GPV1.2' }, schedule, clock);
+
+		expect(result.state).toBe('off');
+		expect(result.currentRange).toEqual({ from: 14, to: 16, status: 'no' });
+		// 'first' is still off, so the change is at 18:00 Kyiv
+		expect(result.nextChangeAt?.toISOString()).toBe('2025-12-17T16:00:00.000Z');
+	});
+
+	it('looks into the following days for the next change', () => {
+		// 20:00 Kyiv: 'maybe' continues until 06:00 tomorrow
+		const result = resolveBuildingState(
+			{ group: 'GPV1.2' },
+			schedule,
+			fixedClock('2025-12-17T18:00:00Z')
+		);
+
+		expect(result.state).toBe('maybe');
+		expect(result.nextChangeAt?.toISOString()).toBe('2025-12-18T04:00:00.000Z');
+	});
+
+	it('returns no change instant when the schedule ends without one', () => {
+		// 07:00 Kyiv tomorrow: 'yes' until the end of the known schedule
+		const result = resolveBuildingState(
+			{ group: 'GPV1.2' },
+			schedule,
+			fixedClock('2025-12-18T05:00:00Z')
+		);
+
+		expect(result).toEqual({
+			state: 'on',
+			currentRange: { from: 6, to: 24, status: 'yes' },
+			nextChangeAt: null,
+		});
+	});
+
+	it('lets an active outage take precedence until it ends', () => {
+		const result = resolveBuildingState(
+			{
+				group: 'GPV1.2',
+				outage: { type: 'emergency', from: '10:00 17.12.2025', to: '23:00 17.12.2025' },
+			},
+			schedule,
+			clock
+		);
+
+		expect(result.state).toBe('emergency');
+		expect(result.currentRange).toBeNull();
+		expect(result.nextChangeAt?.toISOString()).toBe('2025-12-17T21:00:00.000Z');
+	});
+
+	it('shows non-emergency outages as off and tolerates an unparseable end', () => {
+		const result = resolveBuildingState(
+			{ outage: { type: 'planned', from: '10:00 17.12.2025', to: 'невідомо' } },
+			null,
+			clock
+		);
+
+		expect(result).toEqual({ state: 'off', currentRange: null, nextChangeAt: null });
+	});
+
+	it('defaults to on without a schedule for today', () => {
+		expect(resolveBuildingState({ group: 'GPV1.2' }, {}, clock)).toEqual({
+			state: 'on',
+			currentRange: null,
+			nextChangeAt: null,
+		});
+		expect(resolveBuildingState(null, undefined, clock).state).toBe('on');
+	});
+});
@@ -0,0 +1,665 @@
+/**
+ * Unit tests for DtekService
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { createDtekService } from '$lib/server/dtek/service';
+import * as client from '$lib/server/dtek/client';
+import { CookieJar } from '$lib/server/dtek/client';
+import * as kv from '$lib/server/kv/client';
+import {
+	ok,
+	err,
+	networkError,
+	rateLimitedError,
+	kvError,
+	sessionError,
+	blockedError,
+} from '$lib/types';
+import type { DtekStatusResponse } from '$lib/types';
+import type { DtekCachedRegion, DtekSession } from '$lib/types/dtek-cache';
+
+vi.mock('$lib/server/kv/client', () => ({
+	getDtekRegionData: vi.fn(),
+	setDtekRegionData: vi.fn(),
+	getDtekStatus: vi.fn(),
+	setDtekStatus: vi.fn(),
+	// No pool by default: the region data session is used
+	getDtekSessionPool: vi.fn(async () => ok(null)),
+	setDtekSessionPool: vi.fn(async () => ok(undefined)),
+	getDtekSessionStats: vi.fn(async () => ok({})),
+	recordDtekSessionSuccess: vi.fn(async () => ok(undefined)),
+	recordDtekSessionRejection: vi.fn(async () => ok(1)),
+	quarantineDtekSession: vi.fn(async () => ok(undefined)),
+}));
+
+vi.mock('$lib/server/dtek/client', async (importOriginal) => ({
+	...(await importOriginal<typeof import('$lib/server/dtek/client')>()),
+	fetchBuildingStatuses: vi.fn(),
+	fetchTemplate: vi.fn(),
+}));
+
+const regionData: DtekCachedRegion = {
+	region: 'oem',
+	baseUrl: 'https://www.dtek-oem.com.ua',
+	csrf: 'csrf-token',
+	cookies: 'session=abc',
+	updateFact: '17.12.2025 14:24',
+	cities: ['м. Одеса'],
+	streetsByCity: { 'м. Одеса': ['вул. Педагогічна'] },
+	scheduleData: null,
+	extractedAt: '2025-12-17T12:00:00.000Z',
+};
+
+const statusResponse: DtekStatusResponse = {
+	result: true,
+	data: {
+		'2': {
+			sub_type: null,
+			start_date: null,
+			end_date: null,
+			type: null,
+			sub_type_reason: ['GPV1.2'],
+			voluntarily: null,
+		},
+	},
+};
+
+/** Promise whose resolution is controlled by the test */
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((r) => (resolve = r));
+	return { promise, resolve };
+}
+
+describe('DtekService.getStatus', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(ok(regionData));
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		vi.mocked(kv.setDtekStatus).mockResolvedValue(ok(undefined));
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.mocked(client.fetchBuildingStatuses).mockReset();
+	});
+
+	it('coalesces concurrent requests for the same street', async () => {
+		const pending = deferred<Awaited<ReturnType<typeof client.fetchBuildingStatuses>>>();
+		vi.mocked(client.fetchBuildingStatuses).mockReturnValueOnce(pending.promise);
+		const service = createDtekService('oem');
+
+		const requests = Array.from({ length: 5 }, () =>
+			service.getStatus('м. Одеса', 'вул. Педагогічна')
+		);
+		pending.resolve(ok(statusResponse));
+		const results = await Promise.all(requests);
+
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(1);
+		for (const result of results) {
+			expect(result.ok && result.value.response).toEqual(statusResponse);
+		}
+	});
+
+	it('does not coalesce different streets', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+		const service = createDtekService('oem');
+
+		await Promise.all([
+			service.getStatus('м. Одеса', 'вул. Педагогічна'),
+			service.getStatus('м. Одеса', 'вул. Дерибасівська'),
+		]);
+
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(2);
+	});
+
+	it('shares a failure with joined callers and retries on the next call', async () => {
+		const failure = err(networkError('https://www.dtek-oem.com.ua/ua/ajax', 'HTTP 502'));
+		vi.mocked(client.fetchBuildingStatuses)
+			.mockResolvedValueOnce(failure)
+			.mockResolvedValueOnce(ok(statusResponse));
+		const service = createDtekService('oem');
+
+		const [first, second] = await Promise.all([
+			service.getStatus('м. Одеса', 'вул. Педагогічна'),
+			service.getStatus('м. Одеса', 'вул. Педагогічна'),
+		]);
+		expect(first.ok).toBe(false);
+		expect(second).toBe(first);
+
+		const retry = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		expect(retry.ok).toBe(true);
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(2);
+	});
+
+	it('rejects empty data for a known street without caching it', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok({ result: true, data: {} }));
+		const service = createDtekService('oem');
+
+		const first = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(!first.ok && first.error).toMatchObject({
+			code: 'UPSTREAM_REJECTED',
+			reason: 'empty_data',
+		});
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(2);
+		expect(kv.setDtekStatus).not.toHaveBeenCalled();
+	});
+
+	it('accepts empty data for a street missing from the street list', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok({ result: true, data: {} }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Нова');
+
+		expect(result.ok && result.value.response.data).toEqual({});
+	});
+
+	it('serves later requests from the cache', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+		const service = createDtekService('oem');
+
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('DtekService address directory', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(
+			ok({
+				...regionData,
+				cities: ['м. Одеса', 'с. Усатове'],
+				streetsByCity: {
+					'м. Одеса': ['вул. Педагогічна', 'вул. Пушкінська'],
+					'с. Усатове': ['вул. Шкільна'],
+				},
+			})
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('rejects streets of an unknown city with suggestions', async () => {
+		const result = await createDtekService('oem').getStreets('Одеса');
+
+		expect(!result.ok && result.error).toMatchObject({
+			code: 'CITY_NOT_FOUND',
+			city: 'Одеса',
+			suggestions: ['м. Одеса'],
+		});
+	});
+
+	it('accepts a known address', async () => {
+		const result = await createDtekService('oem').validateAddress('м. Одеса', 'вул. Пушкінська');
+
+		expect(result.ok).toBe(true);
+	});
+
+	it('rejects an unknown street with suggestions from its city', async () => {
+		const result = await createDtekService('oem').validateAddress('м. Одеса', 'Педагогічна');
+
+		expect(!result.ok && result.error).toMatchObject({
+			code: 'STREET_NOT_FOUND',
+			street: 'Педагогічна',
+			suggestions: ['вул. Педагогічна'],
+		});
+	});
+});
+
+describe('DtekService schedule groups', () => {
+	const day = { ranges: [{ from: 0, to: 24, status: 'yes' as const }], source: 'fact' as const };
+
+	beforeEach(() => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(
+			ok({
+				...regionData,
+				scheduleData: {
+					groups: { 'GPV10.1': {}, 'GPV2.1': { '2025-12-17': day }, 'GPV1.2': {} },
+					names: { 'GPV2.1': 'Черга 2.1', 'GPV10.1': 'Черга 10.1' },
+				},
+			})
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('lists groups in natural order, naming unnamed groups by their number', async () => {
+		const result = await createDtekService('oem').getGroups();
+
+		expect(result).toEqual(
+			ok([
+				{ id: 'GPV1.2', name: 'Черга 1.2' },
+				{ id: 'GPV2.1', name: 'Черга 2.1' },
+				{ id: 'GPV10.1', name: 'Черга 10.1' },
+			])
+		);
+	});
+
+	it('returns a group schedule from today with data freshness', async () => {
+		const result = await createDtekService('oem').getGroupSchedule(
+			'GPV2.1',
+			new Date('2025-12-17T13:00:00Z')
+		);
+
+		expect(result).toEqual(
+			ok({
+				group: { id: 'GPV2.1', name: 'Черга 2.1' },
+				schedule: { '2025-12-17': day },
+				updateFact: regionData.updateFact,
+				extractedAt: regionData.extractedAt,
+			})
+		);
+	});
+
+	it('rejects an unknown group with suggestions', async () => {
+		const result = await createDtekService('oem').getGroupSchedule('2.1');
+
+		expect(!result.ok && result.error).toMatchObject({
+			code: 'GROUP_NOT_FOUND',
+			group: '2.1',
+			suggestions: ['GPV2.1'],
+		});
+	});
+});
+
+describe('DtekService circuit breaker', () => {
+	const failure = err(networkError('https://www.dtek-oem.com.ua/ua/ajax', 'HTTP 502'));
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(ok(regionData));
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		vi.mocked(kv.setDtekStatus).mockResolvedValue(ok(undefined));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.mocked(client.fetchBuildingStatuses).mockReset();
+	});
+
+	/** Fail enough live requests to open the circuit */
+	async function tripBreaker(service: ReturnType<typeof createDtekService>) {
+		for (let i = 0; i < 5; i++) {
+			await service.getStatus('м. Одеса', `вул. ${i}`);
+		}
+	}
+
+	it('opens after consecutive upstream failures and short-circuits', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(failure);
+		const service = createDtekService('oem');
+
+		await tripBreaker(service);
+		expect(service.getCircuitHealth().state).toBe('open');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('REGION_UNAVAILABLE');
+		}
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(5);
+	});
+
+	it('serves last-known data as stale while open', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValueOnce(ok(statusResponse));
+		const service = createDtekService('oem');
+		const fresh = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		vi.advanceTimersByTime(3 * 60 * 1000); // past the 2 minute status cache TTL
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(failure);
+		await tripBreaker(service);
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		if (result.ok && fresh.ok) {
+			expect(result.value.stale).toBe(true);
+			expect(result.value.fetchedAt).toBe(fresh.value.fetchedAt);
+		}
+	});
+
+	it('probes once after the open period and closes on success', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(failure);
+		const service = createDtekService('oem');
+		await tripBreaker(service);
+
+		vi.advanceTimersByTime(30 * 1000);
+		expect(service.getCircuitHealth().state).toBe('half-open');
+
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		expect(service.getCircuitHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+	});
+
+	it('reopens when the probe fails', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(failure);
+		const service = createDtekService('oem');
+		await tripBreaker(service);
+
+		vi.advanceTimersByTime(30 * 1000);
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(service.getCircuitHealth().state).toBe('open');
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(6);
+	});
+
+	it('ignores rate limiting when counting failures', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(
+			err(rateLimitedError('queue_timeout', 'No slot', 1000, { region: 'oem' }))
+		);
+		const service = createDtekService('oem');
+		await tripBreaker(service);
+
+		expect(service.getCircuitHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+	});
+});
+
+describe('DtekService shared status cache', () => {
+	const NOW = new Date('2025-12-17T13:00:00Z').getTime();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ now: NOW });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(ok(regionData));
+		vi.mocked(kv.setDtekStatus).mockResolvedValue(ok(undefined));
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.mocked(client.fetchBuildingStatuses).mockReset();
+	});
+
+	it('serves a fresh Redis entry without calling DTEK', async () => {
+		const fetchedAt = NOW - 60 * 1000;
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok({ response: statusResponse, fetchedAt }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok && result.value).toMatchObject({ cacheStatus: 'hit', fetchedAt });
+		expect(client.fetchBuildingStatuses).not.toHaveBeenCalled();
+	});
+
+	it('serves a stale Redis entry and revalidates in the background', async () => {
+		const fetchedAt = NOW - 10 * 60 * 1000;
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok({ response: statusResponse, fetchedAt }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		expect(result.ok && result.value).toMatchObject({ cacheStatus: 'stale', fetchedAt });
+
+		// Zero interval: poll without moving the fake clock
+		await vi.waitFor(() => expect(kv.setDtekStatus).toHaveBeenCalledTimes(1), { interval: 0 });
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(kv.setDtekStatus).mock.calls[0][3]).toEqual({
+			response: statusResponse,
+			fetchedAt: NOW,
+		});
+
+		const next = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+		expect(next.ok && next.value).toMatchObject({ cacheStatus: 'hit', fetchedAt: NOW });
+	});
+
+	it('blocks on DTEK when the Redis entry is past the stale window', async () => {
+		const fetchedAt = NOW - 60 * 60 * 1000;
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok({ response: statusResponse, fetchedAt }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok && result.value).toMatchObject({ cacheStatus: 'miss', fetchedAt: NOW });
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(1);
+	});
+
+	it('returns the newest last-known status from memory or Redis', async () => {
+		const service = createDtekService('oem');
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		const local = await service.getLastKnownStatus('м. Одеса', 'вул. Педагогічна');
+		expect(local).toMatchObject({ fetchedAt: NOW, stale: true, cacheStatus: 'stale' });
+
+		const newer = { response: statusResponse, fetchedAt: NOW + 1000 };
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(newer));
+		const shared = await service.getLastKnownStatus('м. Одеса', 'вул. Педагогічна');
+		expect(shared?.fetchedAt).toBe(NOW + 1000);
+	});
+
+	it('has no last-known status for a street never fetched', async () => {
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		const service = createDtekService('oem');
+
+		expect(await service.getLastKnownStatus('м. Одеса', 'вул. Нова')).toBeNull();
+	});
+
+	it('falls back to DTEK when Redis is unavailable', async () => {
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(err(kvError('Redis down')));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok && result.value.cacheStatus).toBe('miss');
+	});
+});
+
+describe('DtekService session expiry', () => {
+	const templateHtml = readFileSync(
+		resolve(__dirname, '../fixtures/dtek/shutdowns-oem.html'),
+		'utf-8'
+	);
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		vi.mocked(kv.setDtekStatus).mockResolvedValue(ok(undefined));
+		vi.mocked(kv.setDtekRegionData).mockResolvedValue(ok(undefined));
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.mocked(client.fetchBuildingStatuses).mockReset();
+	});
+
+	it('refreshes the session before its cookies expire', async () => {
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(
+			ok({ ...regionData, sessionExpiresAt: new Date(Date.now() + 30 * 1000).toISOString() })
+		);
+		const cookies = new CookieJar();
+		cookies.absorb(['dtek-oem=fresh; Path=/', 'incap_ses_1=new; Max-Age=3600']);
+		vi.mocked(client.fetchTemplate).mockResolvedValue(ok({ html: templateHtml, cookies }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		expect(client.fetchTemplate).toHaveBeenCalledTimes(1);
+		const sentCookies = vi.mocked(client.fetchBuildingStatuses).mock.calls[0][0].cookies;
+		expect(sentCookies.getFiltered('oem')).toBe('dtek-oem=fresh; incap_ses_1=new');
+		expect(vi.mocked(kv.setDtekRegionData).mock.calls[0][1].sessionExpiresAt).not.toBeNull();
+	});
+
+	it('keeps using a session that is not about to expire', async () => {
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(
+			ok({ ...regionData, sessionExpiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString() })
+		);
+		const service = createDtekService('oem');
+
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(client.fetchTemplate).not.toHaveBeenCalled();
+	});
+});
+
+describe('DtekService session pool', () => {
+	const NOW = new Date('2025-12-17T13:00:00Z').getTime();
+	const templateHtml = readFileSync(
+		resolve(__dirname, '../fixtures/dtek/shutdowns-oem.html'),
+		'utf-8'
+	);
+	const rejected = err(sessionError('expired', 'HTTP 400', { httpStatus: 400 }));
+
+	const session = (id: string): DtekSession => ({
+		id,
+		csrf: `csrf-${id}`,
+		cookies: `session=${id}`,
+		sessionExpiresAt: null,
+		createdAt: '2025-12-17T12:00:00.000Z',
+	});
+	const pool = { sessions: [session('a'), session('b'), session('c')], updatedAt: '' };
+
+	/** Session ids DTEK was called with, in order */
+	const usedSessions = () =>
+		vi.mocked(client.fetchBuildingStatuses).mock.calls.map(([params]) => params.csrf.slice(5));
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ now: NOW });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.mocked(kv.getDtekRegionData).mockResolvedValue(ok(regionData));
+		vi.mocked(kv.setDtekRegionData).mockResolvedValue(ok(undefined));
+		vi.mocked(kv.getDtekStatus).mockResolvedValue(ok(null));
+		vi.mocked(kv.setDtekStatus).mockResolvedValue(ok(undefined));
+		vi.mocked(kv.getDtekSessionPool).mockResolvedValue(ok(pool));
+		vi.mocked(kv.getDtekSessionStats).mockResolvedValue(ok({}));
+		vi.mocked(kv.recordDtekSessionRejection).mockResolvedValue(ok(1));
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValue(ok(statusResponse));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		vi.mocked(kv.getDtekSessionPool).mockResolvedValue(ok(null));
+		vi.mocked(kv.getDtekSessionStats).mockResolvedValue(ok({}));
+		vi.mocked(client.fetchBuildingStatuses).mockReset();
+	});
+
+	it('rotates requests among pooled sessions', async () => {
+		const service = createDtekService('oem');
+
+		for (const street of ['вул. 1', 'вул. 2', 'вул. 3', 'вул. 4']) {
+			await service.getStatus('м. Одеса', street);
+		}
+
+		expect(usedSessions()).toEqual(['a', 'b', 'c', 'a']);
+		expect(kv.recordDtekSessionSuccess).toHaveBeenCalledWith('oem', 'a');
+	});
+
+	it('skips quarantined sessions', async () => {
+		vi.mocked(kv.getDtekSessionStats).mockResolvedValue(
+			ok({
+				a: { successes: 0, rejections: 3, consecutiveRejections: 3, quarantinedUntil: NOW + 1000 },
+				b: { successes: 0, rejections: 3, consecutiveRejections: 3, quarantinedUntil: NOW - 1000 },
+			})
+		);
+		const service = createDtekService('oem');
+
+		await service.getStatus('м. Одеса', 'вул. 1');
+		await service.getStatus('м. Одеса', 'вул. 2');
+
+		expect(usedSessions()).toEqual(['b', 'c']);
+	});
+
+	it('tries another session when one is rejected', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValueOnce(rejected);
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		expect(usedSessions()).toEqual(['a', 'b']);
+		expect(kv.recordDtekSessionRejection).toHaveBeenCalledWith('oem', 'a');
+		expect(client.fetchTemplate).not.toHaveBeenCalled();
+	});
+
+	it('treats a WAF block like a rejected session', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValueOnce(
+			err(blockedError('challenge', 'Blocked', { httpStatus: 403 }))
+		);
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		expect(usedSessions()).toEqual(['a', 'b']);
+		expect(kv.recordDtekSessionRejection).toHaveBeenCalledWith('oem', 'a');
+	});
+
+	it('quarantines a session after repeated rejections', async () => {
+		vi.mocked(client.fetchBuildingStatuses).mockResolvedValueOnce(rejected);
+		vi.mocked(kv.recordDtekSessionRejection).mockResolvedValue(ok(3));
+		const service = createDtekService('oem');
+
+		await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(kv.quarantineDtekSession).toHaveBeenCalledWith('oem', 'a', NOW + 10 * 60 * 1000);
+	});
+
+	it('replaces a rejected session in the pool with a fresh one', async () => {
+		vi.mocked(client.fetchBuildingStatuses)
+			.mockResolvedValueOnce(rejected)
+			.mockResolvedValueOnce(rejected);
+		const cookies = new CookieJar();
+		cookies.absorb(['dtek-oem=fresh; Path=/']);
+		vi.mocked(client.fetchTemplate).mockResolvedValue(ok({ html: templateHtml, cookies }));
+		const service = createDtekService('oem');
+
+		const result = await service.getStatus('м. Одеса', 'вул. Педагогічна');
+
+		expect(result.ok).toBe(true);
+		expect(client.fetchBuildingStatuses).toHaveBeenCalledTimes(3);
+		const [, saved, removedIds] = vi.mocked(kv.setDtekSessionPool).mock.calls[0];
+		expect(saved.sessions.map((s) => s.id)).toEqual([expect.any(String), 'b', 'c']);
+		expect(saved.sessions[0].cookies).toEqual([
+			expect.objectContaining({ name: 'dtek-oem', value: 'fresh' }),
+		]);
+		expect(removedIds).toEqual(['a']);
+	});
+
+	it('reports session health with shared counters', async () => {
+		vi.mocked(kv.getDtekSessionStats).mockResolvedValue(
+			ok({
+				a: { successes: 7, rejections: 3, consecutiveRejections: 3, quarantinedUntil: NOW + 1000 },
+				b: { successes: 2, rejections: 0, consecutiveRejections: 0, quarantinedUntil: null },
+			})
+		);
+		const service = createDtekService('oem');
+
+		const health = await service.getSessionHealth();
+
+		expect(health.map((s) => [s.id, s.healthy, s.successes])).toEqual([
+			['a', false, 7],
+			['b', true, 2],
+			['c', true, 0],
+		]);
+		expect(health[0].quarantinedUntil).toBe(NOW + 1000);
+	});
+});
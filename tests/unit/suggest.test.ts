@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeName, suggestNames } from '../../src/lib/utils/suggest';
+
+describe('normalizeName', () => {
+	it('drops type prefixes and case', () => {
+		expect(normalizeName('вул. Педагогічна')).toBe('педагогічна');
+		expect(normalizeName('м. Одеса')).toBe('одеса');
+		expect(normalizeName('смт. Велика Михайлівка')).toBe('велика михайлівка');
+	});
+
+	it('unifies apostrophes and whitespace', () => {
+		expect(normalizeName('вул.  Миколи   Бажана')).toBe('миколи бажана');
+		expect(normalizeName("вул. Мар'янівська")).toBe(normalizeName('вул. Марʼянівська'));
+	});
+});
+
+describe('suggestNames', () => {
+	const streets = [
+		'вул. Педагогічна',
+		'пров. Педагогічний',
+		'вул. Пушкінська',
+		'просп. Шевченка',
+		'вул. Шевченка',
+	];
+
+	it('ranks the same name without prefix first', () => {
+		expect(suggestNames('Педагогічна', streets)[0]).toBe('вул. Педагогічна');
+	});
+
+	it('suggests names containing the query', () => {
+		expect(suggestNames('шевч', streets)).toEqual(['вул. Шевченка', 'просп. Шевченка']);
+	});
+
+	it('tolerates typos', () => {
+		expect(suggestNames('Пушкинська', streets)).toEqual(['вул. Пушкінська']);
+	});
+
+	it('returns nothing for unrelated input', () => {
+		expect(suggestNames('Дерибасівська', streets)).toEqual([]);
+		expect(suggestNames('  ', streets)).toEqual([]);
+	});
+
+	it('limits the number of suggestions', () => {
+		expect(suggestNames('а', streets, 2)).toHaveLength(2);
+	});
+});
@@ -0,0 +1,338 @@
+/**
+ * Unit tests for DTEK template parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+	extractJson,
+	extractCsrf,
+	compressDaySchedule,
+	resolveSchedules,
+	parseTemplate,
+	buildCachedRegion,
+} from '$lib/server/dtek/template';
+
+const fixture = (name: string) =>
+	readFileSync(resolve(__dirname, '../fixtures/dtek', name), 'utf-8');
+
+// Wednesday 17.12.2025 15:00 Kyiv
+const NOW = new Date('2025-12-17T13:00:00Z');
+
+describe('extractJson', () => {
+	it('extracts object after marker', () => {
+		expect(extractJson('X.a = {"b":{"c":1}};', 'X.a', '{', '}')).toEqual({ b: { c: 1 } });
+	});
+
+	it('extracts array after marker', () => {
+		expect(extractJson('X.a = ["1", "2"]', 'X.a', '[', ']')).toEqual(['1', '2']);
+	});
+
+	it('returns null when marker is missing', () => {
+		expect(extractJson('nothing here', 'X.a', '{', '}')).toBeNull();
+	});
+
+	it('returns null when value has a different opener', () => {
+		expect(extractJson('X.a = ["1"]', 'X.a', '{', '}')).toBeNull();
+	});
+
+	it('returns null for malformed JSON', () => {
+		expect(extractJson('X.a = {"b": }', 'X.a', '{', '}')).toBeNull();
+	});
+});
+
+describe('extractCsrf', () => {
+	it('extracts token from meta tag', () => {
+		expect(extractCsrf('<meta name="csrf-token" content="abc==">')).toBe('abc==');
+	});
+
+	it('returns null when meta tag is missing', () => {
+		expect(extractCsrf('<meta name="csrf-param" content="_csrf">')).toBeNull();
+	});
+
+	it('returns null for empty token', () => {
+		expect(extractCsrf('<meta name="csrf-token" content="">')).toBeNull();
+	});
+});
+
+describe('compressDaySchedule', () => {
+	it('merges consecutive hours with the same status', () => {
+		expect(compressDaySchedule({ '1': 'yes', '2': 'yes', '3': 'no', '4': 'no' })).toEqual([
+			{ from: 0, to: 2, status: 'yes' },
+			{ from: 2, to: 4, status: 'no' },
+		]);
+	});
+
+	it('splits half-hour statuses', () => {
+		expect(compressDaySchedule({ '1': 'first', '2': 'msecond' })).toEqual([
+			{ from: 0, to: 0.5, status: 'no' },
+			{ from: 0.5, to: 1.5, status: 'yes' },
+			{ from: 1.5, to: 2, status: 'maybe' },
+		]);
+	});
+
+	it('returns empty array for empty day', () => {
+		expect(compressDaySchedule({})).toEqual([]);
+	});
+});
+
+describe('resolveSchedules', () => {
+	const preset = {
+		'GPV1.1': {
+			'3': { '1': 'no', '2': 'yes' },
+			'4': { '1': 'maybe', '2': 'maybe' },
+		},
+	};
+
+	it('uses preset for every day when fact is empty', () => {
+		const result = resolveSchedules(preset, [], NOW);
+		expect(result).toEqual({
+			groups: {
+				'GPV1.1': {
+					'2025-12-17': {
+						ranges: [
+							{ from: 0, to: 1, status: 'no' },
+							{ from: 1, to: 2, status: 'yes' },
+						],
+						source: 'preset',
+					},
+					'2025-12-18': { ranges: [{ from: 0, to: 2, status: 'maybe' }], source: 'preset' },
+				},
+			},
+		});
+	});
+
+	it('prefers fact data for today', () => {
+		const fact = { '1765922400': { 'GPV1.1': { '1': 'yes', '2': 'yes' } } };
+		const result = resolveSchedules(preset, fact, NOW);
+		expect(result?.groups['GPV1.1']['2025-12-17']).toEqual({
+			ranges: [{ from: 0, to: 2, status: 'yes' }],
+			source: 'fact',
+		});
+		expect(result?.groups['GPV1.1']['2025-12-18'].source).toBe('preset');
+	});
+
+	it('prefers fact data for tomorrow once published', () => {
+		// 1765922400 = 17.12 00:00 Kyiv, 1766008800 = 18.12 00:00 Kyiv
+		const fact = {
+			'1765922400': { 'GPV1.1': { '1': 'yes', '2': 'yes' } },
+			'1766008800': { 'GPV1.1': { '1': 'no', '2': 'no' } },
+		};
+		const result = resolveSchedules(preset, fact, NOW);
+		expect(result?.groups['GPV1.1']['2025-12-18']).toEqual({
+			ranges: [{ from: 0, to: 2, status: 'no' }],
+			source: 'fact',
+		});
+	});
+
+	it('ignores fact days outside the upcoming week', () => {
+		// 16.12 00:00 Kyiv - yesterday relative to NOW
+		const fact = { '1765836000': { 'GPV1.1': { '1': 'yes', '2': 'yes' } } };
+		const result = resolveSchedules(preset, fact, NOW);
+		expect(result?.groups['GPV1.1']['2025-12-16']).toBeUndefined();
+		expect(result?.groups['GPV1.1']['2025-12-17'].source).toBe('preset');
+	});
+
+	it('adds groups that only exist in fact data', () => {
+		const fact = { '1766008800': { 'GPV9.9': { '1': 'no' } } };
+		const result = resolveSchedules(preset, fact, NOW);
+		expect(result?.groups['GPV9.9']).toEqual({
+			'2025-12-18': { ranges: [{ from: 0, to: 1, status: 'no' }], source: 'fact' },
+		});
+	});
+
+	it('uses Kyiv date near midnight', () => {
+		// 23:30 UTC on Tuesday is 01:30 Wednesday in Kyiv
+		const result = resolveSchedules(preset, [], new Date('2025-12-16T23:30:00Z'));
+		expect(Object.keys(result?.groups['GPV1.1'] ?? {})).toEqual(['2025-12-17', '2025-12-18']);
+	});
+
+	it('resolves a full week of dates across the DST change', () => {
+		const weekly = {
+			'GPV1.1': Object.fromEntries(
+				['1', '2', '3', '4', '5', '6', '7'].map((d) => [d, { '1': 'yes' }])
+			),
+		};
+		// Saturday 28.03.2026 23:30 Kyiv; clocks go forward on Sunday 29.03
+		const result = resolveSchedules(weekly, [], new Date('2026-03-28T21:30:00Z'));
+		expect(Object.keys(result?.groups['GPV1.1'] ?? {})).toEqual([
+			'2026-03-28',
+			'2026-03-29',
+			'2026-03-30',
+			'2026-03-31',
+			'2026-04-01',
+			'2026-04-02',
+			'2026-04-03',
+		]);
+	});
+
+	it('returns null when preset is missing', () => {
+		expect(resolveSchedules(null, [], NOW)).toBeNull();
+	});
+});
+
+describe('parseTemplate', () => {
+	it('parses single-city template (array streets)', () => {
+		const result = parseTemplate(fixture('shutdowns-kem.html'), 'kem', NOW);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		expect(result.value.csrf).toBe('fixture-csrf-kem==');
+		expect(result.value.updateFact).toBe('17.12.2025 14:24');
+		expect(result.value.cities).toEqual(['м. Київ']);
+		// Blank and "*" placeholder streets are dropped
+		expect(result.value.streetsByCity['м. Київ']).toEqual([
+			'вул. Хрещатик',
+			'вул. Велика Васильківська',
+		]);
+	});
+
+	it('parses multi-city template (object streets)', () => {
+		const result = parseTemplate(fixture('shutdowns-oem.html'), 'oem', NOW);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		expect(result.value.cities).toEqual(['м. Одеса', 'м. Чорноморськ']);
+		expect(result.value.streetsByCity['м. Чорноморськ']).toEqual(['вул. Паркова']);
+	});
+
+	it('resolves schedules from fact and preset', () => {
+		const result = parseTemplate(fixture('shutdowns-kem.html'), 'kem', NOW);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		const scheduleData = result.value.scheduleData;
+		expect(Object.keys(scheduleData?.groups ?? {})).toEqual(['GPV1.1', 'GPV1.2']);
+		expect(scheduleData?.groups['GPV1.1']['2025-12-17']).toEqual({
+			ranges: [
+				{ from: 0, to: 8, status: 'yes' },
+				{ from: 8, to: 12.5, status: 'no' },
+				{ from: 12.5, to: 13.5, status: 'yes' },
+				{ from: 13.5, to: 14, status: 'maybe' },
+				{ from: 14, to: 24, status: 'yes' },
+			],
+			source: 'fact',
+		});
+		expect(scheduleData?.groups['GPV1.1']['2025-12-18'].ranges[0]).toEqual({
+			from: 0,
+			to: 4,
+			status: 'yes',
+		});
+	});
+
+	it('keeps group display names from preset.sch_names', () => {
+		const result = parseTemplate(fixture('shutdowns-kem.html'), 'kem', NOW);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		expect(result.value.scheduleData?.names).toEqual({
+			'GPV1.1': 'Черга 1.1',
+			'GPV1.2': 'Черга 1.2',
+		});
+	});
+
+	it('keeps a full week of dates per group', () => {
+		const result = parseTemplate(fixture('shutdowns-kem.html'), 'kem', NOW);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		const days = result.value.scheduleData?.groups['GPV1.2'] ?? {};
+		expect(Object.keys(days)).toEqual([
+			'2025-12-17',
+			'2025-12-18',
+			'2025-12-19',
+			'2025-12-20',
+			'2025-12-21',
+			'2025-12-22',
+			'2025-12-23',
+		]);
+		expect(Object.entries(days).filter(([, d]) => d.source === 'fact')).toHaveLength(1);
+	});
+
+	it('returns csrf ParseError for WAF challenge page', () => {
+		const result = parseTemplate(fixture('challenge.html'), 'kem', NOW);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.code).toBe('PARSE_ERROR');
+			expect(result.error.parseType).toBe('csrf');
+		}
+	});
+
+	it('returns discon_streets ParseError when streets are missing', () => {
+		const html = fixture('shutdowns-kem.html').replace('DisconSchedule.streets', 'Other.streets');
+		const result = parseTemplate(html, 'kem', NOW);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.parseType).toBe('discon_streets');
+		}
+	});
+
+	it('returns discon_fact ParseError when fact is missing', () => {
+		const html = fixture('shutdowns-kem.html').replace('DisconSchedule.fact', 'Other.fact');
+		const result = parseTemplate(html, 'kem', NOW);
+
+		expect(result.ok).toBe(false);
+		if (!result.ok) {
+			expect(result.error.parseType).toBe('discon_fact');
+		}
+	});
+});
+
+describe('buildCachedRegion', () => {
+	it('builds KV entry from template data', () => {
+		const result = parseTemplate(fixture('shutdowns-oem.html'), 'oem', NOW);
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		const cookies = [{ name: 'dtek-oem', value: 'abc', path: '/' }];
+		const cached = buildCachedRegion(
+			'oem',
+			'https://www.dtek-oem.com.ua',
+			result.value,
+			cookies,
+			NOW
+		);
+
+		expect(cached).toMatchObject({
+			region: 'oem',
+			baseUrl: 'https://www.dtek-oem.com.ua',
+			csrf: 'fixture-csrf-oem==',
+			cookies,
+			sessionExpiresAt: null,
+			updateFact: '17.12.2025 14:24',
+			cities: ['м. Одеса', 'м. Чорноморськ'],
+			extractedAt: NOW.toISOString(),
+		});
+	});
+
+	it('records when the first session cookie expires', () => {
+		const result = parseTemplate(fixture('shutdowns-oem.html'), 'oem', NOW);
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+
+		const soon = NOW.getTime() + 10 * 60 * 1000;
+		const cached = buildCachedRegion(
+			'oem',
+			'https://www.dtek-oem.com.ua',
+			result.value,
+			[
+				{ name: 'dtek-oem', value: 'abc', path: '/' },
+				{ name: 'incap_ses_1_2', value: 'x', path: '/', expiresAt: soon },
+				{ name: 'visid_incap_2', value: 'y', path: '/', expiresAt: soon + 86_400_000 },
+				// Not a session cookie: its expiry does not matter
+				{ name: '_ga', value: 'z', path: '/', expiresAt: NOW.getTime() + 1000 },
+			],
+			NOW
+		);
+
+		expect(cached.sessionExpiresAt).toBe(new Date(soon).toISOString());
+	});
+});